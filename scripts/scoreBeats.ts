@@ -0,0 +1,166 @@
+/**
+ * Score the realtime beat detectors against hand-labelled tracks.
+ *
+ * Usage:
+ *   npm run score-beats -- <wav files or directories...> [--fps 60] [--sensitivity 0.5]
+ *                          [--tolerance 0.07] [--min-f 0.6] [--worklet]
+ *
+ * Each WAV file needs a beat label file next to it: `<name>.beats.txt` or
+ * `<name>.txt`, one time in seconds per line. Optional `<name>.transitions.txt`
+ * and `<name>.heavy.txt` files score transitions and heavy beat shifts too
+ * (with a wider tolerance, since those are section-level events).
+ *
+ * --worklet scores the AudioWorklet's sample-based onset detector instead of
+ * the frame-based one (beats only - it doesn't detect section events).
+ *
+ * Exits non-zero when the mean beat F-measure falls below --min-f, so it can
+ * guard against detection regressions.
+ */
+
+import { readFileSync, readdirSync, statSync, existsSync } from 'node:fs';
+import { join, basename, extname, dirname } from 'node:path';
+import { decodeWav } from '../src/audio/wav';
+import { runOfflineDetection, runOnsetDetection } from '../src/audio/offlineDetection';
+import { scoreEvents, parseEventLabels, DEFAULT_BEAT_TOLERANCE_SECONDS } from '../src/audio/beatScoring';
+import type { EventScore } from '../src/audio/beatScoring';
+
+const SECTION_EVENT_TOLERANCE_SECONDS = 1.0;
+
+interface Options {
+  inputs: string[];
+  frameRate: number;
+  sensitivity?: number;
+  tolerance: number;
+  minFMeasure: number;
+  worklet: boolean;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { inputs: [], frameRate: 60, tolerance: DEFAULT_BEAT_TOLERANCE_SECONDS, minFMeasure: 0, worklet: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined || !Number.isFinite(parseFloat(next))) {
+        throw new Error(`${arg} needs a numeric value`);
+      }
+      return parseFloat(next);
+    };
+
+    if (arg === '--fps') options.frameRate = value();
+    else if (arg === '--sensitivity') options.sensitivity = value();
+    else if (arg === '--tolerance') options.tolerance = value();
+    else if (arg === '--min-f') options.minFMeasure = value();
+    else if (arg === '--worklet') options.worklet = true;
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else options.inputs.push(arg);
+  }
+
+  return options;
+}
+
+/**
+ * Expand directories into the WAV files they contain.
+ */
+function collectWavFiles(inputs: string[]): string[] {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (statSync(input).isDirectory()) {
+      for (const entry of readdirSync(input).sort()) {
+        if (extname(entry).toLowerCase() === '.wav') {
+          files.push(join(input, entry));
+        }
+      }
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+}
+
+function findLabels(wavPath: string, suffixes: string[]): number[] | null {
+  const stem = join(dirname(wavPath), basename(wavPath, extname(wavPath)));
+  for (const suffix of suffixes) {
+    if (existsSync(stem + suffix)) {
+      return parseEventLabels(readFileSync(stem + suffix, 'utf8'));
+    }
+  }
+  return null;
+}
+
+function formatScore(score: EventScore): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(6);
+  return `F ${percent(score.fMeasure)}  P ${percent(score.precision)}  R ${percent(score.recall)}` +
+    `  (${score.matched}/${score.reference} matched, ${score.detected} detected)`;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const files = collectWavFiles(options.inputs);
+  if (files.length === 0) {
+    console.error('Usage: npm run score-beats -- <wav files or directories...> [--fps 60] [--sensitivity 0.5] [--tolerance 0.07] [--min-f 0.6] [--worklet]');
+    process.exit(2);
+  }
+
+  const fMeasures: number[] = [];
+
+  for (const file of files) {
+    const beatLabels = findLabels(file, ['.beats.txt', '.txt']);
+    if (!beatLabels) {
+      console.warn(`${basename(file)}: no beat labels found, skipping`);
+      continue;
+    }
+
+    const data = readFileSync(file);
+    const { channels, sampleRate } = decodeWav(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+
+    if (options.worklet) {
+      const onsets = runOnsetDetection(channels, sampleRate, { sensitivity: options.sensitivity });
+      const beatScore = scoreEvents(onsets.beats, beatLabels, options.tolerance);
+      fMeasures.push(beatScore.fMeasure);
+      console.log(`${basename(file)} (worklet)`);
+      console.log(`  beats        ${formatScore(beatScore)}`);
+      continue;
+    }
+
+    const result = runOfflineDetection(channels, sampleRate, {
+      frameRate: options.frameRate,
+      sensitivity: options.sensitivity,
+    });
+
+    const beatScore = scoreEvents(result.beats, beatLabels, options.tolerance);
+    fMeasures.push(beatScore.fMeasure);
+    console.log(`${basename(file)}`);
+    console.log(`  beats        ${formatScore(beatScore)}`);
+
+    const transitionLabels = findLabels(file, ['.transitions.txt']);
+    if (transitionLabels) {
+      console.log(`  transitions  ${formatScore(scoreEvents(result.transitions, transitionLabels, SECTION_EVENT_TOLERANCE_SECONDS))}`);
+    } else {
+      console.log(`  transitions  ${result.transitions.length} detected (no labels)`);
+    }
+
+    const heavyLabels = findLabels(file, ['.heavy.txt']);
+    if (heavyLabels) {
+      console.log(`  heavy shifts ${formatScore(scoreEvents(result.heavyBeatShifts, heavyLabels, SECTION_EVENT_TOLERANCE_SECONDS))}`);
+    } else {
+      console.log(`  heavy shifts ${result.heavyBeatShifts.length} detected (no labels)`);
+    }
+  }
+
+  if (fMeasures.length === 0) {
+    console.error('No labelled tracks were scored.');
+    process.exit(2);
+  }
+
+  const meanF = fMeasures.reduce((sum, f) => sum + f, 0) / fMeasures.length;
+  console.log(`\nMean beat F-measure over ${fMeasures.length} track(s): ${(meanF * 100).toFixed(1)}%`);
+
+  if (meanF < options.minFMeasure) {
+    console.error(`Below the required ${(options.minFMeasure * 100).toFixed(1)}%`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,12 +1,21 @@
 /**
  * Audio analyser module for accessing frequency data from the playing audio.
  * Connects an AnalyserNode to the audio source for real-time frequency analysis.
+ * A ChannelSplitterNode behind it feeds separate left and right analysers for
+ * stereo field analysis.
  */
 
 import { getAudioContext } from './audioPlayer';
 
+export type StereoChannel = 'left' | 'right';
+
 let analyserNode: AnalyserNode | null = null;
 let frequencyData: Uint8Array<ArrayBuffer> | null = null;
+let timeDomainData: Float32Array<ArrayBuffer> | null = null;
+
+// Stereo analysis: analyser -> stereo upmix -> splitter -> left/right analysers
+let channelAnalysers: Record<StereoChannel, AnalyserNode> | null = null;
+let channelTimeDomainData: Record<StereoChannel, Float32Array<ArrayBuffer>> | null = null;
 
 const FFT_SIZE = 2048;
 
@@ -28,11 +37,43 @@ export function initAnalyser(): AnalyserNode | null {
 
     // Initialize frequency data array
     frequencyData = new Uint8Array(analyserNode.frequencyBinCount);
+    timeDomainData = new Float32Array(analyserNode.fftSize);
+
+    initChannelAnalysers(audioContext, analyserNode);
   }
 
   return analyserNode;
 }
 
+/**
+ * Split the analyser's output into per-channel analysers.
+ * The analyser passes its input through unchanged, so it can feed the splitter
+ * alongside the other analysis nodes.
+ */
+function initChannelAnalysers(audioContext: AudioContext, source: AnalyserNode): void {
+  // The splitter treats channels discretely, so a mono source would come out
+  // as left-only. Upmix to stereo first (mono is copied to both sides).
+  const upmix = audioContext.createGain();
+  upmix.channelCount = 2;
+  upmix.channelCountMode = 'explicit';
+  upmix.channelInterpretation = 'speakers';
+
+  const splitter = audioContext.createChannelSplitter(2);
+  source.connect(upmix);
+  upmix.connect(splitter);
+
+  const createChannelAnalyser = (output: number) => {
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    analyser.smoothingTimeConstant = 0.8;
+    splitter.connect(analyser, output);
+    return analyser;
+  };
+
+  channelAnalysers = { left: createChannelAnalyser(0), right: createChannelAnalyser(1) };
+  channelTimeDomainData = { left: new Float32Array(FFT_SIZE), right: new Float32Array(FFT_SIZE) };
+}
+
 /**
  * Get the analyser node for connecting to audio sources.
  */
@@ -54,6 +95,32 @@ export function getFrequencyData(): Uint8Array<ArrayBuffer> {
   return frequencyData;
 }
 
+/**
+ * Get the current waveform from the audio.
+ * Returns a Float32Array of FFT_SIZE samples in the range -1 to 1.
+ */
+export function getTimeDomainData(): Float32Array<ArrayBuffer> {
+  if (!analyserNode || !timeDomainData) {
+    return new Float32Array(0) as Float32Array<ArrayBuffer>;
+  }
+
+  analyserNode.getFloatTimeDomainData(timeDomainData);
+  return timeDomainData;
+}
+
+/**
+ * Get the current waveform of one stereo channel.
+ * Returns a Float32Array of FFT_SIZE samples in the range -1 to 1.
+ */
+export function getChannelTimeDomainData(channel: StereoChannel): Float32Array<ArrayBuffer> {
+  if (!channelAnalysers || !channelTimeDomainData) {
+    return new Float32Array(0) as Float32Array<ArrayBuffer>;
+  }
+
+  channelAnalysers[channel].getFloatTimeDomainData(channelTimeDomainData[channel]);
+  return channelTimeDomainData[channel];
+}
+
 /**
  * Get the average frequency value across all bins (0-255).
  * Useful for quick energy/loudness reading.
@@ -0,0 +1,273 @@
+/**
+ * Audio feature extraction module.
+ * Reads the analyser once per frame and computes an AudioFeatures snapshot
+ * (level, spectral shape, flux and per-band energies) that every consumer
+ * shares, so the spectrum is fetched and the band math is done in one place.
+ *
+ * Call updateAudioFeatures() once per frame before anything that reads the
+ * snapshot (beat detection, effects).
+ * Data comes from the active FrequencySource (the live analyser by default).
+ */
+
+import { getFrequencySource } from './frequencySource';
+
+/**
+ * Average energy per frequency band (0-255, same scale as the analyser bytes).
+ */
+export interface BandEnergies {
+  sub: number; // 20-60 Hz
+  bass: number; // 60-250 Hz
+  lowMid: number; // 250-500 Hz
+  highMid: number; // 500-2000 Hz
+  presence: number; // 2000-6000 Hz
+  brilliance: number; // 6000-20000 Hz
+}
+
+/**
+ * Per-frame snapshot of audio features.
+ */
+export interface AudioFeatures {
+  time: number; // Audio-clock time the snapshot was taken
+  rms: number; // Root mean square of the waveform (0-1)
+  loudness: number; // A-weighted level estimate in dBFS (-100 = silence)
+  spectralCentroid: number; // Magnitude-weighted mean frequency in Hz ("brightness")
+  spectralFlux: number; // Average positive byte change per bin since the previous frame
+  spectralRolloff: number; // Frequency in Hz below which 85% of the spectral energy lies
+  spectralFlatness: number; // Geometric / arithmetic mean of the power spectrum (0 = tonal, 1 = noise)
+  bands: BandEnergies;
+  spectrum: Uint8Array; // This frame's byte spectrum (do not modify)
+  previousSpectrum: Uint8Array; // Previous frame's byte spectrum, for custom flux ranges
+}
+
+const ROLLOFF_FRACTION = 0.85;
+const SILENCE_DB = -100;
+
+const BAND_RANGES: Record<keyof BandEnergies, [number, number]> = {
+  sub: [20, 60],
+  bass: [60, 250],
+  lowMid: [250, 500],
+  highMid: [500, 2000],
+  presence: [2000, 6000],
+  brilliance: [6000, 20000],
+};
+
+// State
+let spectrum = new Uint8Array(0);
+let previousSpectrum = new Uint8Array(0);
+let powers = new Float32Array(0); // Scratch buffer for the rolloff pass
+let loudnessWeights = new Float32Array(0); // Linear A-weighting power gain per bin
+let features: AudioFeatures = createEmptyFeatures(0);
+
+function createEmptyFeatures(time: number): AudioFeatures {
+  return {
+    time,
+    rms: 0,
+    loudness: SILENCE_DB,
+    spectralCentroid: 0,
+    spectralFlux: 0,
+    spectralRolloff: 0,
+    spectralFlatness: 0,
+    bands: { sub: 0, bass: 0, lowMid: 0, highMid: 0, presence: 0, brilliance: 0 },
+    spectrum,
+    previousSpectrum,
+  };
+}
+
+function getSampleRate(): number {
+  return getFrequencySource().getSampleRate();
+}
+
+/**
+ * Convert a frequency range in Hz to a clamped [start, end) bin range.
+ */
+export function getBinRange(lowHz: number, highHz: number, binCount: number): { start: number; end: number } {
+  const sampleRate = getSampleRate();
+  const fftSize = binCount * 2;
+
+  const startBin = Math.floor(lowHz * fftSize / sampleRate);
+  const endBin = Math.ceil(highHz * fftSize / sampleRate);
+
+  // Clamp to valid range
+  const start = Math.max(0, Math.min(startBin, binCount - 1));
+  const end = Math.max(start + 1, Math.min(endBin, binCount));
+  return { start, end };
+}
+
+/**
+ * A-weighting gain in dB at the given frequency (IEC 61672 approximation).
+ */
+function aWeighting(hz: number): number {
+  if (hz <= 0) {
+    return SILENCE_DB;
+  }
+  const f2 = hz * hz;
+  const numerator = 12194 ** 2 * f2 * f2;
+  const denominator = (f2 + 20.6 ** 2) * Math.sqrt((f2 + 107.7 ** 2) * (f2 + 737.9 ** 2)) * (f2 + 12194 ** 2);
+  return 20 * Math.log10(numerator / denominator) + 2.0;
+}
+
+/**
+ * Compute the RMS of the current waveform.
+ */
+function computeRms(waveform: Float32Array): number {
+  if (waveform.length === 0) {
+    return 0;
+  }
+  let sum = 0;
+  for (let i = 0; i < waveform.length; i++) {
+    sum += waveform[i] * waveform[i];
+  }
+  return Math.sqrt(sum / waveform.length);
+}
+
+/**
+ * Update the feature snapshot from the analyser. Call this once per frame.
+ */
+export function updateAudioFeatures(): AudioFeatures {
+  const source = getFrequencySource();
+  const time = source.getCurrentTime();
+  const frequencyData = source.getFrequencyData();
+  const binCount = frequencyData.length;
+
+  if (binCount === 0) {
+    features = createEmptyFeatures(time);
+    return features;
+  }
+
+  // Keep our own copies - the analyser reuses its buffer every read
+  if (spectrum.length !== binCount) {
+    // First frame: no previous spectrum, so flux starts at zero instead of spiking
+    spectrum = new Uint8Array(binCount);
+    previousSpectrum = new Uint8Array(binCount);
+    previousSpectrum.set(frequencyData);
+    powers = new Float32Array(binCount);
+    loudnessWeights = new Float32Array(binCount);
+    const hz = getSampleRate() / (binCount * 2);
+    for (let i = 0; i < binCount; i++) {
+      loudnessWeights[i] = Math.pow(10, aWeighting(i * hz) / 10);
+    }
+  } else {
+    const swap = previousSpectrum;
+    previousSpectrum = spectrum;
+    spectrum = swap;
+  }
+  spectrum.set(frequencyData);
+
+  // Byte values map linearly onto the analyser's decibel range
+  const { min: minDb, max: maxDb } = source.getDecibelRange();
+  const hzPerBin = getSampleRate() / (binCount * 2);
+
+  let flux = 0;
+  let magnitudeSum = 0;
+  let weightedFrequencySum = 0;
+  let powerSum = 0;
+  let logPowerSum = 0;
+  let weightedPowerSum = 0;
+
+  for (let i = 0; i < binCount; i++) {
+    const value = spectrum[i];
+    flux += Math.max(0, value - previousSpectrum[i]);
+
+    // Bins at 0 sit at or below minDecibels - treat them as silent
+    const db = value > 0 ? minDb + (value / 255) * (maxDb - minDb) : SILENCE_DB * 2;
+    const magnitude = Math.pow(10, db / 20);
+    const power = magnitude * magnitude;
+    const frequency = i * hzPerBin;
+
+    powers[i] = power;
+    magnitudeSum += magnitude;
+    weightedFrequencySum += magnitude * frequency;
+    powerSum += power;
+    logPowerSum += Math.log(power);
+    weightedPowerSum += power * loudnessWeights[i];
+  }
+
+  // Rolloff: first bin where the cumulative power passes the fraction
+  let rolloffBin = binCount - 1;
+  let cumulative = 0;
+  for (let i = 0; i < binCount; i++) {
+    cumulative += powers[i];
+    if (cumulative >= powerSum * ROLLOFF_FRACTION) {
+      rolloffBin = i;
+      break;
+    }
+  }
+
+  const bands = {} as BandEnergies;
+  for (const band of Object.keys(BAND_RANGES) as (keyof BandEnergies)[]) {
+    const [lowHz, highHz] = BAND_RANGES[band];
+    bands[band] = getSpectrumRangeAverage(spectrum, lowHz, highHz);
+  }
+
+  const arithmeticMean = powerSum / binCount;
+  const geometricMean = Math.exp(logPowerSum / binCount);
+
+  features = {
+    time,
+    rms: computeRms(source.getTimeDomainData()),
+    loudness: weightedPowerSum > 0 ? Math.max(SILENCE_DB, 10 * Math.log10(weightedPowerSum)) : SILENCE_DB,
+    spectralCentroid: magnitudeSum > 0 ? weightedFrequencySum / magnitudeSum : 0,
+    spectralFlux: flux / binCount,
+    spectralRolloff: rolloffBin * hzPerBin,
+    spectralFlatness: arithmeticMean > 0 ? Math.min(1, geometricMean / arithmeticMean) : 0,
+    bands,
+    spectrum,
+    previousSpectrum,
+  };
+  return features;
+}
+
+/**
+ * Get the feature snapshot from the most recent updateAudioFeatures() call.
+ */
+export function getAudioFeatures(): AudioFeatures {
+  return features;
+}
+
+function getSpectrumRangeAverage(data: Uint8Array, lowHz: number, highHz: number): number {
+  if (data.length === 0) {
+    return 0;
+  }
+  const { start, end } = getBinRange(lowHz, highHz, data.length);
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += data[i];
+  }
+  return sum / (end - start);
+}
+
+/**
+ * Average energy (0-255) of an arbitrary frequency range in the current snapshot.
+ */
+export function getRangeEnergy(lowHz: number, highHz: number): number {
+  return getSpectrumRangeAverage(features.spectrum, lowHz, highHz);
+}
+
+/**
+ * Spectral flux (average positive byte change per bin) of an arbitrary
+ * frequency range between the previous and current snapshot.
+ */
+export function getRangeFlux(lowHz: number, highHz: number): number {
+  const { spectrum: current, previousSpectrum: previous } = features;
+  if (current.length === 0 || previous.length !== current.length) {
+    return 0;
+  }
+  const { start, end } = getBinRange(lowHz, highHz, current.length);
+  let flux = 0;
+  for (let i = start; i < end; i++) {
+    flux += Math.max(0, current[i] - previous[i]);
+  }
+  return flux / (end - start);
+}
+
+/**
+ * Clear the snapshot and spectrum history.
+ * Call this when the audio source changes so flux doesn't spike on the switch.
+ */
+export function resetAudioFeatures(): void {
+  spectrum = new Uint8Array(0);
+  previousSpectrum = new Uint8Array(0);
+  powers = new Float32Array(0);
+  loudnessWeights = new Float32Array(0);
+  features = createEmptyFeatures(0);
+}
@@ -1,16 +1,59 @@
 /**
  * Audio player module for loading and playing the soundtrack.
  * Uses Web Audio API for precise timing and future audio analysis.
+ * Each playing track is a voice (buffer source + gain); a queued track is
+ * scheduled on the audio clock to crossfade in as the current one ends,
+ * or to follow it gaplessly when the crossfade length is 0.
  */
 
 import { initAnalyser, getAnalyserNode } from './audioAnalyser';
+import { analyzeAudioBuffer } from './beatGrid';
+import type { BeatGrid } from './beatGrid';
+import { analyzeBufferStructure } from './songStructure';
+import type { SongSection } from './songStructure';
+
+/**
+ * A decoded track with its offline analysis, ready to play.
+ */
+export interface LoadedTrack {
+  buffer: AudioBuffer;
+  beatGrid: BeatGrid;
+  sections: SongSection[];
+}
+
+/**
+ * One playing instance of a track: its source and the gain used for fades.
+ */
+interface Voice {
+  track: LoadedTrack;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  playbackStartTime: number; // AudioContext time at which track position 0 would have played
+  fadeInEnd: number; // AudioContext time at which the voice reaches full level
+}
+
+const DEFAULT_CROSSFADE_SECONDS = 6;
+const FADE_CURVE_POINTS = 64;
 
 let audioContext: AudioContext | null = null;
-let audioBuffer: AudioBuffer | null = null;
-let sourceNode: AudioBufferSourceNode | null = null;
+let currentTrack: LoadedTrack | null = null;
+let voice: Voice | null = null; // The voice that owns playback position, grid and sections
+let queuedTrack: LoadedTrack | null = null; // Plays after the current track (crossfaded or gapless)
+let queuedVoice: Voice | null = null; // Scheduled voice for queuedTrack while playing
+let handoverTime = Infinity; // AudioContext time at which queuedVoice takes over
+let handoverTimer: number | null = null;
+let queueTimer: number | null = null; // Waits for the current voice's fade-in before queueing behind it
+let outgoingVoice: Voice | null = null; // Voice faded out by crossfadeTo() that still owns position, grid and sections
+let crossfadeHandoverTime = -Infinity; // AudioContext time at which the crossfaded-in voice takes over from outgoingVoice
+let fadingVoices: Voice[] = []; // Previous voices still fading out
+let crossfadeSeconds = DEFAULT_CROSSFADE_SECONDS;
 let isPlaying = false;
+let isPaused = false;
+let pausedAt = 0; // Track position (seconds) while paused
+let trackEndedCallbacks: (() => void)[] = [];
+let queuedTrackStartedCallbacks: (() => void)[] = [];
 
-const AUDIO_PATH = '/audio/synthwave.mp3';
+export const AUDIO_PATH = '/audio/synthwave.mp3';
 
 /**
  * Initialize the audio context (must be called after user interaction due to browser autoplay policies)
@@ -30,10 +73,44 @@ export function getAudioContext(): AudioContext | null {
 }
 
 /**
- * Load the audio file into a buffer.
- * Also initializes the audio analyser.
+ * Load an audio file from a URL into a buffer (defaults to the built-in track).
+ * Also initializes the audio analyser and runs the offline beat-grid analysis.
+ */
+export async function loadAudio(url: string = AUDIO_PATH): Promise<void> {
+  currentTrack = await prepareAudio(url);
+}
+
+/**
+ * Load a local audio file (e.g. from drag and drop or a file dialog) into a buffer.
+ * Also initializes the audio analyser and runs the offline beat-grid analysis.
+ */
+export async function loadAudioFile(file: File): Promise<void> {
+  currentTrack = await prepareAudioFile(file);
+}
+
+/**
+ * Decode and analyze a track from a URL without touching playback.
+ * Pass the result to setCurrentTrack(), crossfadeTo() or queueTrack().
+ */
+export async function prepareAudio(url: string = AUDIO_PATH): Promise<LoadedTrack> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio ${url}: ${response.status}`);
+  }
+  return decodeAudio(await response.arrayBuffer());
+}
+
+/**
+ * Decode and analyze a local audio file without touching playback.
+ */
+export async function prepareAudioFile(file: File): Promise<LoadedTrack> {
+  return decodeAudio(await file.arrayBuffer());
+}
+
+/**
+ * Decode encoded audio data and run the beat-grid and structure analysis.
  */
-export async function loadAudio(): Promise<void> {
+async function decodeAudio(arrayBuffer: ArrayBuffer): Promise<LoadedTrack> {
   if (!audioContext) {
     initAudio();
   }
@@ -41,17 +118,257 @@ export async function loadAudio(): Promise<void> {
   // Initialize analyser after audio context is created
   initAnalyser();
 
-  const response = await fetch(AUDIO_PATH);
-  const arrayBuffer = await response.arrayBuffer();
-  audioBuffer = await audioContext!.decodeAudioData(arrayBuffer);
+  const buffer = await audioContext!.decodeAudioData(arrayBuffer);
+
+  const beatGrid = analyzeAudioBuffer(buffer);
+  console.log(`Beat grid: ${beatGrid.bpm.toFixed(1)} BPM, ${beatGrid.beats.length} beats, ${beatGrid.transitions.length} transitions`);
+
+  const sections = analyzeBufferStructure(buffer, beatGrid.downbeats);
+  console.log(`Song structure: ${sections.map(section => section.label).join(', ')}`);
+
+  return { buffer, beatGrid, sections };
+}
+
+/**
+ * Replace the loaded track (takes effect on the next play()).
+ */
+export function setCurrentTrack(track: LoadedTrack): void {
+  currentTrack = track;
+}
+
+/**
+ * Get the loaded track (null until loadAudio() completes).
+ */
+export function getLoadedTrack(): LoadedTrack | null {
+  syncHandover();
+  return currentTrack;
+}
+
+/**
+ * Create a source for a track, routed through its own gain into the analyser.
+ */
+function createVoice(track: LoadedTrack, startAt: number, offset: number): Voice {
+  const context = audioContext!;
+  const source = context.createBufferSource();
+  source.buffer = track.buffer;
+
+  const gain = context.createGain();
+  source.connect(gain);
+
+  // Play each voice straight to the speakers and tap the analyser alongside
+  // (it sees the blend of all voices, and never plays captured sources back)
+  gain.connect(context.destination);
+  const analyser = getAnalyserNode();
+  if (analyser) {
+    gain.connect(analyser);
+  }
+
+  const startOffset = Math.max(0, Math.min(offset, track.buffer.duration));
+  source.start(startAt, startOffset);
+  return { track, source, gain, playbackStartTime: startAt - startOffset, fadeInEnd: startAt };
+}
+
+/**
+ * Stop a voice immediately and detach it from the graph.
+ */
+function stopVoice(target: Voice): void {
+  target.source.onended = null;
+  try {
+    target.source.stop();
+  } catch {
+    // Already stopped
+  }
+  target.source.disconnect();
+  target.gain.disconnect();
+}
+
+/**
+ * Equal-power fade curve (keeps perceived loudness steady through the blend).
+ */
+function createFadeCurve(fadeIn: boolean, level: number): Float32Array {
+  const curve = new Float32Array(FADE_CURVE_POINTS);
+  for (let i = 0; i < FADE_CURVE_POINTS; i++) {
+    const t = i / (FADE_CURVE_POINTS - 1);
+    curve[i] = level * (fadeIn ? Math.sin(t * Math.PI / 2) : Math.cos(t * Math.PI / 2));
+  }
+  return curve;
+}
+
+/**
+ * Schedule a fade on a voice's gain. A zero-length fade is a hard switch.
+ * Fade-outs start from the given level (1 unless the voice was already fading).
+ */
+function scheduleFade(target: Voice, fadeIn: boolean, startAt: number, duration: number, level: number = 1): void {
+  const gain = target.gain.gain;
+  gain.cancelScheduledValues(0);
+  gain.setValueAtTime(fadeIn ? 0 : level, 0);
+  if (duration > 0) {
+    gain.setValueCurveAtTime(createFadeCurve(fadeIn, fadeIn ? 1 : level), startAt, duration);
+  } else {
+    gain.setValueAtTime(fadeIn ? 1 : 0, startAt);
+  }
+}
+
+/**
+ * Keep a replaced voice alive until its fade finishes, then clean it up.
+ */
+function retireVoice(target: Voice, stopAt: number): void {
+  fadingVoices.push(target);
+  target.source.onended = () => {
+    target.source.disconnect();
+    target.gain.disconnect();
+    fadingVoices = fadingVoices.filter(v => v !== target);
+  };
+  target.source.stop(stopAt);
+}
+
+/**
+ * Fade length usable between two tracks (never more than half of either).
+ */
+function getFadeLength(from: LoadedTrack, to: LoadedTrack): number {
+  return Math.max(0, Math.min(crossfadeSeconds, from.buffer.duration / 2, to.buffer.duration / 2));
+}
+
+/**
+ * Called when the current voice ends without a queued track taking over.
+ */
+function handleVoiceEnded(): void {
+  isPlaying = false;
+  for (const callback of trackEndedCallbacks) {
+    callback();
+  }
+}
+
+/**
+ * Schedule the queued track to start as the current one ends, crossfading
+ * the two (or starting it sample-accurately at the end for a zero-length fade).
+ */
+function scheduleQueuedVoice(): void {
+  cancelQueuedVoice();
+  if (!audioContext || !voice || !queuedTrack || !isPlaying) {
+    return;
+  }
+
+  // Fading out rewrites the current voice's gain, so let its fade-in finish first
+  // (fades are at most half a track, so the queued one still starts on time)
+  const now = audioContext.currentTime;
+  if (now < voice.fadeInEnd) {
+    queueTimer = window.setTimeout(scheduleQueuedVoice, (voice.fadeInEnd - now) * 1000);
+    return;
+  }
+
+  const currentEnd = voice.playbackStartTime + voice.track.buffer.duration;
+  const fade = getFadeLength(voice.track, queuedTrack);
+  const startAt = Math.max(now, currentEnd - fade);
+  const fadeLength = Math.max(0, currentEnd - startAt);
+
+  queuedVoice = createVoice(queuedTrack, startAt, 0);
+  queuedVoice.source.onended = handleVoiceEnded;
+  scheduleFade(queuedVoice, true, startAt, fadeLength);
+  queuedVoice.fadeInEnd = startAt + fadeLength;
+  scheduleFade(voice, false, startAt, fadeLength);
+
+  // The queued track takes over instead of the current one ending
+  voice.source.onended = null;
+
+  // Position, grid and sections switch over halfway through the fade
+  handoverTime = startAt + fadeLength / 2;
+  handoverTimer = window.setTimeout(syncHandover, Math.max(0, (handoverTime - now) * 1000));
+}
+
+/**
+ * Drop the scheduled queued voice and restore the current voice's level.
+ */
+function cancelQueuedVoice(): void {
+  if (queueTimer !== null) {
+    clearTimeout(queueTimer);
+    queueTimer = null;
+  }
+  if (handoverTimer !== null) {
+    clearTimeout(handoverTimer);
+    handoverTimer = null;
+  }
+  handoverTime = Infinity;
+
+  if (queuedVoice) {
+    stopVoice(queuedVoice);
+    queuedVoice = null;
+
+    if (voice) {
+      voice.gain.gain.cancelScheduledValues(0);
+      voice.gain.gain.setValueAtTime(1, 0);
+      voice.source.onended = handleVoiceEnded;
+    }
+  }
+}
+
+/**
+ * Hand position, grid and sections over to the voice crossfadeTo() started.
+ */
+function finishCrossfade(): void {
+  if (!outgoingVoice) return;
+  outgoingVoice = null;
+  crossfadeHandoverTime = -Infinity;
+  if (voice) {
+    currentTrack = voice.track;
+  }
+}
+
+/**
+ * Promote the crossfaded-in or queued voice once its handover time has passed.
+ * Runs from a timer, and lazily from every accessor so the position and grid
+ * switch at the exact audio-clock moment even if the timer fires late.
+ */
+function syncHandover(): void {
+  if (audioContext && outgoingVoice && audioContext.currentTime >= crossfadeHandoverTime) {
+    finishCrossfade();
+  }
+  if (!audioContext || !queuedVoice || audioContext.currentTime < handoverTime) {
+    return;
+  }
+
+  if (handoverTimer !== null) {
+    clearTimeout(handoverTimer);
+    handoverTimer = null;
+  }
+
+  if (voice) {
+    retireVoice(voice, voice.playbackStartTime + voice.track.buffer.duration);
+  }
+  voice = queuedVoice;
+  currentTrack = voice.track;
+  queuedVoice = null;
+  queuedTrack = null;
+  handoverTime = Infinity;
+
+  for (const callback of queuedTrackStartedCallbacks) {
+    callback();
+  }
+}
+
+/**
+ * Stop every voice (current, queued and fading) immediately.
+ */
+function stopAllVoices(): void {
+  finishCrossfade();
+  cancelQueuedVoice();
+  for (const fading of fadingVoices) {
+    stopVoice(fading);
+  }
+  fadingVoices = [];
+  if (voice) {
+    stopVoice(voice);
+    voice = null;
+  }
 }
 
 /**
- * Play the loaded audio
+ * Play the loaded audio, optionally starting from a position in seconds.
+ * Any queued track is rescheduled to follow it.
  * Returns the source node for potential future use (e.g., connecting to analyser)
  */
-export function play(): AudioBufferSourceNode | null {
-  if (!audioContext || !audioBuffer) {
+export function play(offset: number = 0): AudioBufferSourceNode | null {
+  if (!audioContext || !currentTrack) {
     console.error('Audio not initialized or loaded. Call loadAudio() first.');
     return null;
   }
@@ -62,43 +379,185 @@ export function play(): AudioBufferSourceNode | null {
   }
 
   // Stop any currently playing audio
-  if (sourceNode && isPlaying) {
-    sourceNode.stop();
+  stopAllVoices();
+
+  voice = createVoice(currentTrack, audioContext.currentTime, offset);
+
+  // Track playing state (only fires for natural track ends - stop() detaches it)
+  voice.source.onended = handleVoiceEnded;
+
+  isPlaying = true;
+  isPaused = false;
+
+  scheduleQueuedVoice();
+
+  return voice.source;
+}
+
+/**
+ * Switch to another track now, fading the current one out while the new one
+ * fades in. Beat detection keeps running through the fade; as with a queued
+ * track, position, grid and sections switch over halfway through it.
+ * Starts the track directly when nothing is playing.
+ */
+export function crossfadeTo(track: LoadedTrack, fadeSeconds: number = crossfadeSeconds): void {
+  syncHandover();
+  if (!audioContext || !voice || !isPlaying) {
+    finishCrossfade();
+    currentTrack = track;
+    play();
+    return;
   }
 
-  // Create and configure source node
-  sourceNode = audioContext.createBufferSource();
-  sourceNode.buffer = audioBuffer;
+  const now = audioContext.currentTime;
+  const fade = Math.max(0, Math.min(fadeSeconds, track.buffer.duration / 2));
 
-  // Connect through analyser if available
-  const analyser = getAnalyserNode();
-  if (analyser) {
-    sourceNode.connect(analyser);
-    analyser.connect(audioContext.destination);
-  } else {
-    // Fallback: connect directly to destination
-    sourceNode.connect(audioContext.destination);
+  // Fade out whatever is audible from the level it is at right now
+  // (the current voice and a queued one may already be mid-crossfade)
+  const previous = voice;
+  const previousLevel = previous.gain.gain.value;
+  const sounding = queuedVoice && queuedVoice.playbackStartTime <= now ? queuedVoice : null;
+  if (sounding) {
+    const soundingLevel = sounding.gain.gain.value;
+    queuedVoice = null; // Keep cancelQueuedVoice() from cutting it
+    scheduleFade(sounding, false, now, fade, soundingLevel);
+    retireVoice(sounding, now + fade);
   }
 
-  // Track playing state
-  sourceNode.onended = () => {
-    isPlaying = false;
-  };
+  // The queued track was meant to follow the old one
+  cancelQueuedVoice();
+  queuedTrack = null;
 
-  sourceNode.start(0);
-  isPlaying = true;
+  scheduleFade(previous, false, now, fade, previousLevel);
+  retireVoice(previous, now + fade);
+
+  voice = createVoice(track, now, 0);
+  voice.source.onended = handleVoiceEnded;
+  scheduleFade(voice, true, now, fade);
+  voice.fadeInEnd = now + fade;
+
+  // Whichever voice owns the position keeps it until halfway through the fade
+  outgoingVoice = outgoingVoice ?? previous;
+  crossfadeHandoverTime = now + fade / 2;
+}
+
+/**
+ * Queue a track to follow the current one (replacing any queued track).
+ * It starts crossfadeSeconds before the current track ends, or exactly at
+ * the end (gapless) when the crossfade length is 0.
+ */
+export function queueTrack(track: LoadedTrack): void {
+  syncHandover();
+  queuedTrack = track;
+  scheduleQueuedVoice();
+}
+
+/**
+ * Remove the queued track; the current one will end normally.
+ */
+export function clearQueuedTrack(): void {
+  syncHandover();
+  cancelQueuedVoice();
+  queuedTrack = null;
+}
 
-  return sourceNode;
+/**
+ * Set the crossfade length in seconds (0 = gapless hard switch).
+ * Applies to the next scheduled transition.
+ */
+export function setCrossfadeDuration(seconds: number): void {
+  if (!Number.isFinite(seconds)) return;
+  crossfadeSeconds = Math.max(0, seconds);
+  syncHandover();
+  scheduleQueuedVoice();
+}
+
+/**
+ * Get the crossfade length in seconds.
+ */
+export function getCrossfadeDuration(): number {
+  return crossfadeSeconds;
 }
 
 /**
  * Stop the currently playing audio
  */
 export function stop(): void {
-  if (sourceNode && isPlaying) {
-    sourceNode.stop();
-    isPlaying = false;
+  stopAllVoices();
+  queuedTrack = null;
+  isPlaying = false;
+  isPaused = false;
+  pausedAt = 0;
+}
+
+/**
+ * Pause playback, keeping the current position.
+ * AudioBufferSourceNodes can't be restarted, so resume() creates a new one.
+ * A fade in progress is cut; the queued track is rescheduled on resume.
+ */
+export function pause(): void {
+  syncHandover();
+  finishCrossfade();
+  if (!isPlaying) return;
+
+  pausedAt = getCurrentTime();
+  stopAllVoices();
+  isPlaying = false;
+  isPaused = true;
+}
+
+/**
+ * Resume playback from the paused position.
+ */
+export function resume(): void {
+  if (!isPaused) return;
+  play(pausedAt);
+}
+
+/**
+ * Jump to a position in seconds (clamped to the track).
+ * Keeps the current playing/paused state.
+ */
+export function seek(seconds: number): void {
+  syncHandover();
+  finishCrossfade();
+  const position = Math.max(0, Math.min(seconds, getDuration()));
+  if (isPlaying) {
+    play(position);
+  } else if (isPaused) {
+    pausedAt = position;
+  }
+}
+
+/**
+ * Check if audio is currently paused
+ */
+export function getIsPaused(): boolean {
+  return isPaused;
+}
+
+/**
+ * Get the playback position of the current track in seconds, measured on the audio clock.
+ * Returns the paused position while paused and 0 when stopped.
+ */
+export function getCurrentTime(): number {
+  syncHandover();
+  if (isPaused) {
+    return pausedAt;
+  }
+  const owner = outgoingVoice ?? voice;
+  if (!audioContext || !isPlaying || !owner) {
+    return 0;
   }
+  return Math.min(audioContext.currentTime - owner.playbackStartTime, getDuration());
+}
+
+/**
+ * Get the duration of the loaded track in seconds (0 if nothing is loaded).
+ */
+export function getDuration(): number {
+  syncHandover();
+  return currentTrack ? currentTrack.buffer.duration : 0;
 }
 
 /**
@@ -112,5 +571,62 @@ export function getIsPlaying(): boolean {
  * Get the current source node (for connecting to analyser)
  */
 export function getSourceNode(): AudioBufferSourceNode | null {
-  return sourceNode;
+  syncHandover();
+  return voice ? voice.source : null;
+}
+
+/**
+ * Get the beat grid of the loaded track (null until loadAudio() completes).
+ */
+export function getBeatGrid(): BeatGrid | null {
+  syncHandover();
+  return currentTrack ? currentTrack.beatGrid : null;
+}
+
+/**
+ * Replace the beat grid of the loaded track (e.g. with an imported beat map).
+ * Takes effect immediately; beat detection fires from the new grid.
+ */
+export function setBeatGrid(grid: BeatGrid): void {
+  syncHandover();
+  if (currentTrack) {
+    currentTrack.beatGrid = grid;
+  }
+}
+
+/**
+ * Get the labeled song sections of the loaded track (empty until loadAudio() completes).
+ */
+export function getSongSections(): SongSection[] {
+  syncHandover();
+  return currentTrack ? currentTrack.sections : [];
+}
+
+/**
+ * Subscribe to track end events (the track played to its end, not stopped,
+ * and no queued track took over).
+ */
+export function onTrackEnded(callback: () => void): void {
+  trackEndedCallbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from track end events.
+ */
+export function offTrackEnded(callback: () => void): void {
+  trackEndedCallbacks = trackEndedCallbacks.filter(cb => cb !== callback);
+}
+
+/**
+ * Subscribe to queued track handovers (the queued track became the current one).
+ */
+export function onQueuedTrackStarted(callback: () => void): void {
+  queuedTrackStartedCallbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from queued track handovers.
+ */
+export function offQueuedTrackStarted(callback: () => void): void {
+  queuedTrackStartedCallbacks = queuedTrackStartedCallbacks.filter(cb => cb !== callback);
 }
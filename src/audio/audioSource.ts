@@ -0,0 +1,209 @@
+/**
+ * Unified audio source interface.
+ * Wraps the playlist (built-in track and local files), system audio capture
+ * and line-in capture behind one lifecycle - start, stop, state - with ended
+ * and error events, so the app can react when the music stops instead of
+ * flying on in silence. One source is active at a time.
+ */
+
+import { initAudio, stop as stopPlayback } from './audioPlayer';
+import { playTrack, getTracks, onTrackChange, offTrackChange } from './playlist';
+import type { PlaylistTrack } from './playlist';
+import { startSystemAudioCapture, stopSystemAudioCapture, onSystemAudioEnded, offSystemAudioEnded } from './systemAudio';
+import { startInputCapture, stopInputCapture, onInputCaptureEnded, offInputCaptureEnded } from './inputAudio';
+
+export type AudioSourceKind = 'playlist' | 'system' | 'input';
+
+export type AudioSourceState = 'idle' | 'starting' | 'running' | 'stopped' | 'ended' | 'error';
+
+export interface AudioSource {
+  readonly kind: AudioSourceKind;
+  getState(): AudioSourceState;
+  /** Start the source. Resolves false (after firing an error event) if it could not start. */
+  start(): Promise<boolean>;
+  /** Stop the source. Does not fire the ended event. */
+  stop(): void;
+  /** The source ran out on its own (playlist finished, sharing stopped, device unplugged). */
+  onEnded(callback: () => void): void;
+  offEnded(callback: () => void): void;
+  /** The source failed; the error message is suitable for showing to the user. */
+  onError(callback: (error: Error) => void): void;
+  offError(callback: (error: Error) => void): void;
+}
+
+/**
+ * Source-specific behavior plugged into the shared lifecycle.
+ * `begin` throws to signal failure; `end` and `fail` report lifecycle events.
+ */
+interface SourceDriver {
+  begin(end: () => void, fail: (error: Error) => void): Promise<void>;
+  halt(): void;
+}
+
+// State
+let activeSource: AudioSource | null = null;
+
+/**
+ * Build an AudioSource from a driver, handling state and event plumbing.
+ */
+function createSource(kind: AudioSourceKind, driver: SourceDriver): AudioSource {
+  let state: AudioSourceState = 'idle';
+  let endedCallbacks: (() => void)[] = [];
+  let errorCallbacks: ((error: Error) => void)[] = [];
+
+  const end = () => {
+    if (state !== 'running') return;
+    driver.halt();
+    state = 'ended';
+    for (const callback of endedCallbacks) {
+      callback();
+    }
+  };
+
+  const fail = (error: Error) => {
+    if (state === 'stopped') return;
+    driver.halt();
+    state = 'error';
+    for (const callback of errorCallbacks) {
+      callback(error);
+    }
+  };
+
+  return {
+    kind,
+    getState: () => state,
+    start: async () => {
+      if (state === 'starting' || state === 'running') return state === 'running';
+      state = 'starting';
+      try {
+        await driver.begin(end, fail);
+      } catch (error) {
+        fail(error instanceof Error ? error : new Error(String(error)));
+        return false;
+      }
+      // stop() may have been called while starting
+      if (state !== 'starting') return false;
+      state = 'running';
+      return true;
+    },
+    stop: () => {
+      if (state === 'stopped') return;
+      driver.halt();
+      state = 'stopped';
+    },
+    onEnded: (callback) => { endedCallbacks.push(callback); },
+    offEnded: (callback) => { endedCallbacks = endedCallbacks.filter(cb => cb !== callback); },
+    onError: (callback) => { errorCallbacks.push(callback); },
+    offError: (callback) => { errorCallbacks = errorCallbacks.filter(cb => cb !== callback); },
+  };
+}
+
+/**
+ * Source that plays the playlist from the given track index.
+ * Ends when the playlist finishes (repeat off) or the next track can't be loaded.
+ */
+export function createPlaylistSource(startIndex: number = 0): AudioSource {
+  let handleTrackChange: ((track: PlaylistTrack | null) => void) | null = null;
+
+  return createSource('playlist', {
+    begin: async (end) => {
+      initAudio();
+      const result = await playTrack(startIndex);
+      if (result === 'busy') {
+        throw new Error('Another track is still loading. Try again in a moment.');
+      }
+      if (result === 'failed') {
+        const name = getTracks()[startIndex]?.name ?? 'that track';
+        throw new Error(`Could not play ${name}. The file may be missing or in a format the browser can't decode.`);
+      }
+      handleTrackChange = (track) => {
+        if (!track) end();
+      };
+      onTrackChange(handleTrackChange);
+    },
+    halt: () => {
+      if (handleTrackChange) {
+        offTrackChange(handleTrackChange);
+        handleTrackChange = null;
+      }
+      stopPlayback();
+    },
+  });
+}
+
+/**
+ * Source that captures system/tab audio via screen sharing.
+ * Ends when the user stops sharing.
+ */
+export function createSystemAudioSource(): AudioSource {
+  let handleEnded: (() => void) | null = null;
+
+  return createSource('system', {
+    begin: async (end) => {
+      if (!(await startSystemAudioCapture())) {
+        throw new Error('Could not capture system audio. Make sure to check "Share audio" when selecting what to share.');
+      }
+      handleEnded = end;
+      onSystemAudioEnded(handleEnded);
+    },
+    halt: () => {
+      if (handleEnded) {
+        offSystemAudioEnded(handleEnded);
+        handleEnded = null;
+      }
+      stopSystemAudioCapture();
+    },
+  });
+}
+
+/**
+ * Source that captures an audio input device (empty id = remembered/default device).
+ * Ends when the device goes away.
+ */
+export function createInputAudioSource(deviceId?: string): AudioSource {
+  let handleEnded: (() => void) | null = null;
+
+  return createSource('input', {
+    begin: async (end) => {
+      if (!(await startInputCapture(deviceId))) {
+        throw new Error('Could not open the audio input. Check microphone permissions and that the device is connected.');
+      }
+      handleEnded = end;
+      onInputCaptureEnded(handleEnded);
+    },
+    halt: () => {
+      if (handleEnded) {
+        offInputCaptureEnded(handleEnded);
+        handleEnded = null;
+      }
+      stopInputCapture();
+    },
+  });
+}
+
+/**
+ * Make a source the active one: stops the previous source, then starts this one.
+ * Resolves false if the source could not start.
+ */
+export async function activateSource(source: AudioSource): Promise<boolean> {
+  if (activeSource && activeSource !== source) {
+    activeSource.stop();
+  }
+  activeSource = source;
+  return source.start();
+}
+
+/**
+ * Stop the active source (if any).
+ */
+export function deactivateSource(): void {
+  activeSource?.stop();
+  activeSource = null;
+}
+
+/**
+ * Get the active source (null before anything was started).
+ */
+export function getActiveSource(): AudioSource | null {
+  return activeSource;
+}
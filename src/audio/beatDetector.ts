@@ -2,105 +2,337 @@
  * Beat detection module for detecting beats from audio frequency data.
  * Analyzes low frequency bands (kick drums ~60-150Hz) and triggers
  * events when energy exceeds a rolling average threshold.
+ * Snares (mids) and hi-hats (highs) are detected in parallel from spectral flux
+ * and reported through their own events.
+ * All histories hold time-stamped samples with windows measured in seconds on
+ * the audio clock, so sensitivity does not depend on the display frame rate.
+ * The beat threshold adapts to the energy variance and calibrates its beat
+ * rate to the tempo of the detected beats, and silence floors are relative to
+ * the track's own level, so quiet and heavily compressed material both work
+ * without retuning.
+ * When the playing track has an offline beat grid (or an imported beat map),
+ * events are fired from the grid on the audio clock instead, along with any
+ * named cues the grid carries.
+ * When an onset source is set (the AudioWorklet in the browser), beats, snares
+ * and hi-hats come from its sample-accurate onsets instead of the frame-based
+ * thresholds; transitions and heavy beat shifts stay frame-based, since they
+ * are judged over seconds anyway.
+ * Reads the shared AudioFeatures snapshot, so updateAudioFeatures() must run
+ * first each frame.
  */
 
-import { getFrequencyData } from './audioAnalyser';
-import { getAudioContext } from './audioPlayer';
+import { getRangeEnergy, getRangeFlux, getAudioFeatures } from './audioFeatures';
+import { getBeatGrid, getIsPlaying, getCurrentTime } from './audioPlayer';
+import { getFrequencySource } from './frequencySource';
+import { findEventIndex } from './beatGrid';
+import type { BeatGrid } from './beatGrid';
+import type { OnsetEvent, OnsetSource } from './onsetDetector';
 
 // Beat detection configuration
-const BEAT_THRESHOLD = 1.2; // Energy must exceed rolling average by this factor (lower = more sensitive)
-const HISTORY_SIZE = 30; // ~0.5 second of history at 60fps (shorter = more responsive)
-const MIN_BEAT_INTERVAL_MS = 80; // Minimum time between beats to avoid double-triggers
+const HISTORY_SECONDS = 0.5; // Rolling average window (shorter = more responsive)
+const MIN_BEAT_INTERVAL_SECONDS = 0.08; // Minimum time between beats to avoid double-triggers
+const MIN_BEAT_INTERVAL_PERIODS = 0.35; // ...or this fraction of the tracked beat period, if longer
+const BEAT_INTENSITY_DECAY_PER_SECOND = 3; // How fast getBeatIntensity() falls back to 0 between beats
+
+// Adaptive threshold configuration
+// Beat threshold = rolling average + N standard deviations, with N adapted toward the tracked tempo
+const INITIAL_BEAT_DEVIATIONS = 1.0;
+const MIN_BEAT_DEVIATIONS = 0.3;
+const MAX_BEAT_DEVIATIONS = 3.0;
+const MIN_BEAT_RATIO = 1.05; // Energy must always exceed the rolling average by at least this factor
+const DEFAULT_BEATS_PER_SECOND = 2; // Target beat rate (~120 BPM) until a tempo has been tracked
+const MIN_TRACKED_BPM = 70;
+const MAX_TRACKED_BPM = 180;
+const MIN_BEATS_FOR_TEMPO = 6; // Detected beats in the rate window needed to track a tempo
+const TEMPO_TOLERANCE_SECONDS = 0.03; // Beat intervals this close agree on a tempo
+const TEMPO_SUPPORT_RATIO = 0.75; // Shorter periods win with this fraction of the best one's agreeing intervals
+const BEAT_RATE_WINDOW_SECONDS = 8; // Window for measuring the detected beat rate
+const BEAT_RATE_TOLERANCE = 0.15; // Beat rate error (fraction of the target) left uncorrected
+const MIN_BEAT_RATE_WINDOW_SECONDS = 2; // Start adapting once the window holds this much
+const THRESHOLD_ADAPT_RATE = 0.25; // Deviations adapted per second at 100% beat rate error
+const DEFAULT_SENSITIVITY = 0.5; // 0 = fewest beats, 1 = most beats
+const SENSITIVITY_DEVIATION_BIAS = 0.4; // Threshold shift from the calibrated one at sensitivity 0 or 1
+const MAX_GRID_BEAT_THRESHOLD = 0.6; // Weakest grid beat kept at sensitivity 0 (every beat is kept at 1)
+
+// Level tracking - silence floors are fractions of the track's recent loudest level
+const LEVEL_DECAY_PER_SECOND = 0.02; // How fast the reference level forgets loud passages
+const MIN_ABSOLUTE_LEVEL = 1; // Byte-scale floor below which input is always treated as silence
+const BEAT_FLOOR_FACTOR = 0.05;
+const HEAVY_BEAT_FLOOR_FACTOR = 0.1;
+const TRANSITION_FLOOR_FACTOR = 0.15;
 
 // Transition detection configuration
-const TRANSITION_HISTORY_SIZE = 120; // ~2 seconds of history at 60fps
+const TRANSITION_HISTORY_SECONDS = 2; // Long-term window
+const TRANSITION_RECENT_SECONDS = 0.5; // Recent window compared against the long-term one
 const TRANSITION_THRESHOLD = 2.0; // Energy change must be this factor greater than short-term average
-const MIN_TRANSITION_INTERVAL_MS = 8000; // Max 1 transition per 8 seconds (debounce)
+const MIN_TRANSITION_INTERVAL_SECONDS = 8; // Max 1 transition per 8 seconds (debounce)
 
 // Heavy beat shift detection configuration
 const HEAVY_BEAT_THRESHOLD = 2.5; // Energy must exceed rolling average by this factor (vs 1.5x for regular)
-const HEAVY_BEAT_PRE_SILENCE_FRAMES = 12; // ~200ms at 60fps to check for silence before spike
+const HEAVY_BEAT_PRE_SILENCE_SECONDS = 0.2; // Window checked for silence before the spike
+const HEAVY_BEAT_MIN_HISTORY_SECONDS = 0.3; // History needed before heavy beats can be detected
 const HEAVY_BEAT_LOW_ENERGY_FACTOR = 0.5; // Pre-spike energy must be below this factor of rolling average
-const MIN_HEAVY_BEAT_INTERVAL_MS = 2000; // Max 1 heavy beat shift per 2 seconds (debounce)
+const MIN_HEAVY_BEAT_INTERVAL_SECONDS = 2; // Max 1 heavy beat shift per 2 seconds (debounce)
+
+// Snare / hi-hat onset detection configuration
+const SNARE_LOW_HZ = 200; // Snare body and crack live in the mids
+const SNARE_HIGH_HZ = 2000;
+const SNARE_THRESHOLD = 1.6; // Flux must exceed rolling average by this factor
+const MIN_SNARE_INTERVAL_SECONDS = 0.12;
+const HAT_LOW_HZ = 6000; // Hi-hats and cymbals live in the highs
+const HAT_HIGH_HZ = 16000;
+const HAT_THRESHOLD = 1.5;
+const MIN_HAT_INTERVAL_SECONDS = 0.06;
+const ONSET_HISTORY_SECONDS = 0.5; // Rolling flux average window
+const MIN_ONSET_FLUX = 0.5; // Minimum rolling flux to avoid false positives during silence
+
+// Beat grid playback configuration
+const MAX_CATCHUP_SECONDS = 0.25; // Grid and onset events older than this after a stall are skipped, not burst-fired
+
+/**
+ * A detector value stamped with the audio-clock time (seconds) it was measured at.
+ */
+interface TimedSample {
+  time: number;
+  value: number;
+}
+
+/**
+ * Rolling state for one spectral-flux onset band (snare, hi-hat).
+ */
+interface BandOnsetState {
+  lowHz: number;
+  highHz: number;
+  threshold: number;
+  minIntervalSeconds: number;
+  fluxHistory: TimedSample[];
+  historyStartTime: number;
+  lastOnsetTime: number;
+  callbacks: ((intensity: number) => void)[];
+}
+
+function createBandOnsetState(lowHz: number, highHz: number, threshold: number, minIntervalSeconds: number): BandOnsetState {
+  return {
+    lowHz, highHz, threshold, minIntervalSeconds,
+    fluxHistory: [],
+    historyStartTime: -1,
+    lastOnsetTime: -Infinity,
+    callbacks: [],
+  };
+}
 
 // State
-let beatCallbacks: ((intensity: number) => void)[] = [];
+let beatCallbacks: ((intensity: number, time: number) => void)[] = [];
 let transitionCallbacks: ((intensity: number) => void)[] = [];
 let heavyBeatShiftCallbacks: ((intensity: number) => void)[] = [];
-let energyHistory: number[] = [];
-let longTermEnergyHistory: number[] = []; // For transition detection (2 second window)
-let lastBeatTime = 0;
-let lastTransitionTime = 0;
-let lastHeavyBeatShiftTime = 0;
+let cueCallbacks: ((name: string) => void)[] = [];
+let energyHistory: TimedSample[] = [];
+let longTermEnergyHistory: TimedSample[] = []; // For transition detection (2 second window)
+let historyStartTime = -1; // Audio-clock time of the first sample since reset
+let lastUpdateTime = -1; // Audio-clock time of the previous update (for intensity decay)
+let lastBeatTime = -Infinity;
+let lastTransitionTime = -Infinity;
+let lastHeavyBeatShiftTime = -Infinity;
 let currentBeatIntensity = 0;
+let beatDeviations = INITIAL_BEAT_DEVIATIONS; // Adapted threshold in standard deviations
+let beatSensitivity = DEFAULT_SENSITIVITY;
+let recentBeatTimes: number[] = []; // For measuring the detected beat rate
+let trackedBeatPeriod = 0; // Seconds per beat of the detected beats (0 = not tracked yet)
+let referenceLevel = 0; // Slowly decaying peak of the long-term average energy
+let lastGridTime = -Infinity; // Playback time of the previous grid update
+let onsetSource: OnsetSource | null = null;
+const snareOnsets = createBandOnsetState(SNARE_LOW_HZ, SNARE_HIGH_HZ, SNARE_THRESHOLD, MIN_SNARE_INTERVAL_SECONDS);
+const hatOnsets = createBandOnsetState(HAT_LOW_HZ, HAT_HIGH_HZ, HAT_THRESHOLD, MIN_HAT_INTERVAL_SECONDS);
 
 /**
- * Calculate the average energy in the kick drum frequency range.
+ * Current detection time in seconds, from the active frequency source
+ * (the audio clock for the live analyser, the PCM position offline).
  */
-function getKickEnergy(): number {
-  const frequencyData = getFrequencyData();
-  if (frequencyData.length === 0) {
-    return 0;
-  }
-
-  // Get sample rate dynamically to calculate correct frequency bins
-  const audioContext = getAudioContext();
-  const sampleRate = audioContext?.sampleRate || 44100;
-  const fftSize = 2048;
-
-  // Calculate bin indices for 60-150Hz range
-  const startBin = Math.floor(60 * fftSize / sampleRate);
-  const endBin = Math.ceil(150 * fftSize / sampleRate);
+function getDetectionTime(): number {
+  return getFrequencySource().getCurrentTime();
+}
 
-  // Clamp to valid range
-  const start = Math.max(0, Math.min(startBin, frequencyData.length - 1));
-  const end = Math.max(start + 1, Math.min(endBin, frequencyData.length));
+/**
+ * Append a sample and drop everything older than the window.
+ */
+function pushTimedSample(history: TimedSample[], sample: TimedSample, windowSeconds: number): void {
+  history.push(sample);
+  while (history.length > 0 && history[0].time < sample.time - windowSeconds) {
+    history.shift();
+  }
+}
 
-  // Calculate average energy in the kick range
+/**
+ * Average of the samples measured at or after the given time.
+ */
+function getAverageSince(history: TimedSample[], fromTime: number): number {
   let sum = 0;
-  for (let i = start; i < end; i++) {
-    sum += frequencyData[i];
+  let count = 0;
+  for (let i = history.length - 1; i >= 0 && history[i].time >= fromTime; i--) {
+    sum += history[i].value;
+    count++;
   }
+  return count > 0 ? sum / count : 0;
+}
 
-  return sum / (end - start);
+/**
+ * Calculate the average energy in the kick drum frequency range (60-150Hz).
+ */
+function getKickEnergy(): number {
+  return getRangeEnergy(60, 150);
 }
 
 /**
- * Get the rolling average of energy history.
+ * Get the rolling average of energy history (last 0.5 seconds).
  */
 function getRollingAverage(): number {
+  return getAverageSince(energyHistory, -Infinity);
+}
+
+/**
+ * Get the standard deviation of energy history (last 0.5 seconds).
+ */
+function getRollingDeviation(mean: number): number {
   if (energyHistory.length === 0) {
     return 0;
   }
 
-  const sum = energyHistory.reduce((acc, val) => acc + val, 0);
-  return sum / energyHistory.length;
+  const sum = energyHistory.reduce((acc, sample) => acc + (sample.value - mean) ** 2, 0);
+  return Math.sqrt(sum / energyHistory.length);
 }
 
 /**
- * Get the long-term rolling average for transition detection.
+ * Silence floor for a detector: a fraction of the track's reference level.
  */
-function getLongTermAverage(): number {
-  if (longTermEnergyHistory.length === 0) {
+function getLevelFloor(factor: number): number {
+  return Math.max(MIN_ABSOLUTE_LEVEL, referenceLevel * factor);
+}
+
+/**
+ * Track the slowly decaying peak of the long-term average energy.
+ */
+function updateReferenceLevel(deltaTime: number): void {
+  const decayed = referenceLevel * Math.exp(-LEVEL_DECAY_PER_SECOND * deltaTime);
+  referenceLevel = Math.max(decayed, getLongTermAverage());
+}
+
+/**
+ * Threshold in standard deviations with the user sensitivity applied.
+ */
+function getEffectiveBeatDeviations(): number {
+  const bias = (0.5 - beatSensitivity) * 2 * SENSITIVITY_DEVIATION_BIAS;
+  return Math.max(MIN_BEAT_DEVIATIONS, beatDeviations + bias);
+}
+
+/**
+ * Shortest gap between beats: a fraction of the tracked beat period, so a
+ * kick's decay can't fire again however often the detector runs.
+ */
+function getMinBeatInterval(): number {
+  return Math.max(MIN_BEAT_INTERVAL_SECONDS, trackedBeatPeriod * MIN_BEAT_INTERVAL_PERIODS);
+}
+
+/**
+ * Number of detected beats in the rate window, counting beats closer than
+ * the minimum interval (double triggers from before a tempo was tracked) once.
+ */
+function countRecentBeats(): number {
+  const minInterval = getMinBeatInterval();
+  let count = 0;
+  let lastCounted = -Infinity;
+  for (const time of recentBeatTimes) {
+    if (time - lastCounted >= minInterval) {
+      count++;
+      lastCounted = time;
+    }
+  }
+  return count;
+}
+
+/**
+ * Estimate the beat period from the detected beats: the interval within the
+ * tempo range that the most pairs of beats agree on. Pairs are used rather
+ * than neighbours, so double triggers don't shift the estimate; of intervals
+ * with nearly as much support, the shortest wins (two beats apart also agree).
+ * Returns 0 with too few beats.
+ */
+function estimateBeatPeriod(): number {
+  if (recentBeatTimes.length < MIN_BEATS_FOR_TEMPO) {
+    return 0;
+  }
+
+  const minPeriod = 60 / MAX_TRACKED_BPM;
+  const maxPeriod = 60 / MIN_TRACKED_BPM;
+  const intervals: number[] = [];
+  for (let i = 0; i < recentBeatTimes.length; i++) {
+    for (let j = i + 1; j < recentBeatTimes.length; j++) {
+      const interval = recentBeatTimes[j] - recentBeatTimes[i];
+      if (interval > maxPeriod) break;
+      if (interval >= minPeriod) intervals.push(interval);
+    }
+  }
+
+  const getSupport = (candidate: number) => intervals.filter(interval => Math.abs(interval - candidate) <= TEMPO_TOLERANCE_SECONDS);
+  const supports = intervals.map(candidate => getSupport(candidate).length);
+  const bestSupport = Math.max(0, ...supports);
+  let period = Infinity;
+  intervals.forEach((candidate, i) => {
+    if (supports[i] >= bestSupport * TEMPO_SUPPORT_RATIO) period = Math.min(period, candidate);
+  });
+  if (!Number.isFinite(period)) {
     return 0;
   }
 
-  const sum = longTermEnergyHistory.reduce((acc, val) => acc + val, 0);
-  return sum / longTermEnergyHistory.length;
+  const agreeing = getSupport(period);
+  return agreeing.reduce((sum, interval) => sum + interval, 0) / agreeing.length;
 }
 
 /**
- * Get recent average (last ~0.5 seconds) to compare against long-term.
+ * Nudge the threshold so the detected beat rate approaches the tracked tempo
+ * (a default rate until one is tracked). Sensitivity shifts the threshold
+ * around this calibration instead of changing its target.
  */
-function getRecentAverage(): number {
-  const recentSize = 30; // ~0.5 seconds at 60fps
-  if (longTermEnergyHistory.length < recentSize) {
-    return 0;
+function adaptBeatThreshold(now: number, deltaTime: number, rollingAverage: number): void {
+  while (recentBeatTimes.length > 0 && recentBeatTimes[0] < now - BEAT_RATE_WINDOW_SECONDS) {
+    recentBeatTimes.shift();
+  }
+
+  // Only adapt on audible material - silence would drag the threshold down
+  const windowSeconds = Math.min(now - historyStartTime, BEAT_RATE_WINDOW_SECONDS);
+  if (windowSeconds < MIN_BEAT_RATE_WINDOW_SECONDS || rollingAverage <= getLevelFloor(BEAT_FLOOR_FACTOR)) {
+    return;
   }
 
-  const recentSlice = longTermEnergyHistory.slice(-recentSize);
-  const sum = recentSlice.reduce((acc, val) => acc + val, 0);
-  return sum / recentSlice.length;
+  const targetRate = trackedBeatPeriod > 0 ? 1 / trackedBeatPeriod : DEFAULT_BEATS_PER_SECOND;
+  const rate = countRecentBeats() / windowSeconds;
+
+  // The default rate is only a guess: raise the threshold toward it on a full window
+  // (too few beats to track a tempo is reason enough to lower it sooner)
+  if (trackedBeatPeriod === 0 && rate > targetRate && windowSeconds < BEAT_RATE_WINDOW_SECONDS) {
+    return;
+  }
+
+  // Leave the threshold alone while the rate is close enough - pushing it until
+  // the rate is exact would park it right at the edge of missing beats
+  const rawError = (rate - targetRate) / targetRate;
+  const error = Math.max(-1, Math.min(1, Math.sign(rawError) * Math.max(0, Math.abs(rawError) - BEAT_RATE_TOLERANCE)));
+
+  beatDeviations += THRESHOLD_ADAPT_RATE * error * deltaTime;
+  beatDeviations = Math.max(MIN_BEAT_DEVIATIONS, Math.min(MAX_BEAT_DEVIATIONS, beatDeviations));
+}
+
+/**
+ * Get the long-term rolling average for transition detection (last 2 seconds).
+ */
+function getLongTermAverage(): number {
+  return getAverageSince(longTermEnergyHistory, -Infinity);
+}
+
+/**
+ * Get recent average (last 0.5 seconds) to compare against long-term.
+ */
+function getRecentAverage(now: number): number {
+  return getAverageSince(longTermEnergyHistory, now - TRANSITION_RECENT_SECONDS);
 }
 
 /**
@@ -111,22 +343,22 @@ function getRecentAverage(): number {
 export function detectHeavyBeatShift(): boolean {
   const currentEnergy = getKickEnergy();
   const rollingAverage = getRollingAverage();
+  const now = getDetectionTime();
 
   // Need enough history for comparison
-  if (energyHistory.length < HEAVY_BEAT_PRE_SILENCE_FRAMES + 5) {
+  if (historyStartTime < 0 || now - historyStartTime < HEAVY_BEAT_MIN_HISTORY_SECONDS) {
     return false;
   }
 
-  const now = performance.now();
   const timeSinceLastHeavyBeat = now - lastHeavyBeatShiftTime;
 
   // Enforce debounce: max 1 heavy beat shift per 2 seconds
-  if (timeSinceLastHeavyBeat < MIN_HEAVY_BEAT_INTERVAL_MS) {
+  if (timeSinceLastHeavyBeat < MIN_HEAVY_BEAT_INTERVAL_SECONDS) {
     return false;
   }
 
   // Require minimum rolling average to avoid false positives during silence
-  if (rollingAverage < 10) {
+  if (rollingAverage < getLevelFloor(HEAVY_BEAT_FLOOR_FACTOR)) {
     return false;
   }
 
@@ -136,14 +368,17 @@ export function detectHeavyBeatShift(): boolean {
   }
 
   // Check for silence or low energy in the 200ms before the spike
-  // Look at frames from -HEAVY_BEAT_PRE_SILENCE_FRAMES to -1 (before the current spike)
-  const preSilenceStartIndex = Math.max(0, energyHistory.length - HEAVY_BEAT_PRE_SILENCE_FRAMES - 1);
-  const preSilenceEndIndex = energyHistory.length - 1; // Don't include the very last frame (spike buildup)
+  // Look at samples in [now - 200ms, now), excluding the latest one (spike buildup)
+  const preSilenceEndIndex = energyHistory.length - 1;
+  const latestSampleTime = preSilenceEndIndex >= 0 ? energyHistory[preSilenceEndIndex].time : now;
 
   let preSilenceSum = 0;
   let preSilenceCount = 0;
-  for (let i = preSilenceStartIndex; i < preSilenceEndIndex; i++) {
-    preSilenceSum += energyHistory[i];
+  for (let i = preSilenceEndIndex - 1; i >= 0; i--) {
+    if (energyHistory[i].time < latestSampleTime - HEAVY_BEAT_PRE_SILENCE_SECONDS) {
+      break;
+    }
+    preSilenceSum += energyHistory[i].value;
     preSilenceCount++;
   }
 
@@ -179,20 +414,39 @@ export function detectHeavyBeatShift(): boolean {
  * Returns true if a beat was detected this frame.
  */
 export function updateBeatDetection(): boolean {
+  const now = getDetectionTime();
+  const deltaTime = lastUpdateTime >= 0 ? Math.max(0, now - lastUpdateTime) : 0;
+  lastUpdateTime = now;
+
+  // Snares and hi-hats are always detected live (the beat grid only holds kicks)
+  const onsets = drainOnsets(now);
+  if (onsetSource) {
+    fireBandOnsets(onsets);
+  } else {
+    updateBandOnsets();
+  }
+
+  const grid = getBeatGrid();
+  if (grid && getIsPlaying()) {
+    return updateFromBeatGrid(grid, getCurrentTime(), deltaTime);
+  }
+
   const currentEnergy = getKickEnergy();
   const rollingAverage = getRollingAverage();
+  const rollingDeviation = getRollingDeviation(rollingAverage);
 
-  // Add current energy to history
-  energyHistory.push(currentEnergy);
-  if (energyHistory.length > HISTORY_SIZE) {
-    energyHistory.shift();
+  if (historyStartTime < 0) {
+    historyStartTime = now;
   }
 
+  // Add current energy to history
+  const sample = { time: now, value: currentEnergy };
+  pushTimedSample(energyHistory, sample, HISTORY_SECONDS);
+
   // Add to long-term history for transition detection
-  longTermEnergyHistory.push(currentEnergy);
-  if (longTermEnergyHistory.length > TRANSITION_HISTORY_SIZE) {
-    longTermEnergyHistory.shift();
-  }
+  pushTimedSample(longTermEnergyHistory, sample, TRANSITION_HISTORY_SECONDS);
+
+  updateReferenceLevel(deltaTime);
 
   // Check for transitions (significant energy changes over 1-2 second window)
   checkForTransition();
@@ -200,68 +454,257 @@ export function updateBeatDetection(): boolean {
   // Check for heavy beat shifts (for dramatic effects)
   detectHeavyBeatShift();
 
+  if (onsetSource) {
+    return fireOnsetBeats(onsets, deltaTime);
+  }
+
+  adaptBeatThreshold(now, deltaTime, rollingAverage);
+
   // Need enough history for comparison
-  if (energyHistory.length < HISTORY_SIZE / 2) {
+  if (now - historyStartTime < HISTORY_SECONDS / 2) {
     return false;
   }
 
   // Check for beat
-  const now = performance.now();
   const timeSinceLastBeat = now - lastBeatTime;
+  const beatThreshold = Math.max(
+    rollingAverage * MIN_BEAT_RATIO,
+    rollingAverage + getEffectiveBeatDeviations() * rollingDeviation
+  );
 
   // Beat detected if:
-  // 1. Current energy exceeds threshold * rolling average
+  // 1. Current energy exceeds the adaptive threshold
   // 2. Enough time has passed since last beat
-  // 3. Rolling average is not zero (audio is playing)
+  // 3. Rolling average is above the silence floor (audio is playing)
   if (
-    rollingAverage > 5 && // Minimum threshold to avoid false positives during silence
-    currentEnergy > rollingAverage * BEAT_THRESHOLD &&
-    timeSinceLastBeat > MIN_BEAT_INTERVAL_MS
+    rollingAverage > getLevelFloor(BEAT_FLOOR_FACTOR) &&
+    currentEnergy > beatThreshold &&
+    timeSinceLastBeat > getMinBeatInterval()
   ) {
     lastBeatTime = now;
+    recentBeatTimes.push(now);
+    trackedBeatPeriod = estimateBeatPeriod();
 
-    // Calculate intensity as how much we exceeded the threshold (0-1 scale)
-    // intensity = (current / (average * threshold) - 1) normalized
-    const rawIntensity = (currentEnergy / (rollingAverage * BEAT_THRESHOLD)) - 1;
-    currentBeatIntensity = Math.min(1, Math.max(0, rawIntensity * 2)); // Scale and clamp
+    // Calculate intensity as how far we exceeded the threshold, in units of
+    // two standard deviations (0-1 scale)
+    const spread = Math.max(rollingDeviation, rollingAverage * (MIN_BEAT_RATIO - 1));
+    const rawIntensity = (currentEnergy - beatThreshold) / (2 * spread);
+    currentBeatIntensity = Math.min(1, Math.max(0, rawIntensity)); // Clamp
 
     // Notify all subscribers
     for (const callback of beatCallbacks) {
-      callback(currentBeatIntensity);
+      callback(currentBeatIntensity, now);
     }
 
     return true;
   }
 
   // Decay beat intensity over time
-  currentBeatIntensity = Math.max(0, currentBeatIntensity - 0.05);
+  currentBeatIntensity = Math.max(0, currentBeatIntensity - BEAT_INTENSITY_DECAY_PER_SECOND * deltaTime);
 
   return false;
 }
 
+/**
+ * Take the onsets the onset source detected since the last frame, dropping
+ * any that are too old to fire (the frame loop stalled).
+ */
+function drainOnsets(now: number): OnsetEvent[] {
+  if (!onsetSource) {
+    return [];
+  }
+  return onsetSource.drainEvents().filter(event => event.time >= now - MAX_CATCHUP_SECONDS);
+}
+
+/**
+ * Fire snare and hi-hat events from the onset source.
+ */
+function fireBandOnsets(onsets: OnsetEvent[]): void {
+  for (const onset of onsets) {
+    const state = onset.kind === 'snare' ? snareOnsets : onset.kind === 'hat' ? hatOnsets : null;
+    if (!state) continue;
+
+    state.lastOnsetTime = onset.time;
+    for (const callback of state.callbacks) {
+      callback(onset.intensity);
+    }
+  }
+}
+
+/**
+ * Fire beat events from the onset source, each with the audio-clock time it
+ * was detected at. Returns true if a beat was fired.
+ */
+function fireOnsetBeats(onsets: OnsetEvent[], deltaTime: number): boolean {
+  let fired = false;
+  for (const onset of onsets) {
+    if (onset.kind !== 'beat') continue;
+
+    lastBeatTime = onset.time;
+    currentBeatIntensity = onset.intensity;
+    fired = true;
+    for (const callback of beatCallbacks) {
+      callback(onset.intensity, onset.time);
+    }
+  }
+
+  if (!fired) {
+    // Decay beat intensity over time
+    currentBeatIntensity = Math.max(0, currentBeatIntensity - BEAT_INTENSITY_DECAY_PER_SECOND * deltaTime);
+  }
+  return fired;
+}
+
+/**
+ * Run the snare and hi-hat onset detectors on the current spectrum.
+ */
+function updateBandOnsets(): void {
+  // Flux needs two frames of the same spectrum size
+  const { spectrum, previousSpectrum } = getAudioFeatures();
+  if (spectrum.length === 0 || previousSpectrum.length !== spectrum.length) {
+    return;
+  }
+
+  const now = getDetectionTime();
+  detectBandOnset(snareOnsets, now);
+  detectBandOnset(hatOnsets, now);
+}
+
+/**
+ * Detect an onset in one band: spectral flux (summed bin increases since the
+ * last frame) exceeding its rolling average by the band's threshold.
+ */
+function detectBandOnset(state: BandOnsetState, now: number): void {
+  const flux = getRangeFlux(state.lowHz, state.highHz);
+  const rollingAverage = getAverageSince(state.fluxHistory, -Infinity);
+
+  if (state.historyStartTime < 0) {
+    state.historyStartTime = now;
+  }
+  pushTimedSample(state.fluxHistory, { time: now, value: flux }, ONSET_HISTORY_SECONDS);
+
+  // Need enough history for comparison
+  if (now - state.historyStartTime < ONSET_HISTORY_SECONDS / 2) {
+    return;
+  }
+
+  if (
+    rollingAverage > MIN_ONSET_FLUX &&
+    flux > rollingAverage * state.threshold &&
+    now - state.lastOnsetTime > state.minIntervalSeconds
+  ) {
+    state.lastOnsetTime = now;
+
+    const rawIntensity = (flux / (rollingAverage * state.threshold)) - 1;
+    const intensity = Math.min(1, Math.max(0, rawIntensity * 2));
+
+    for (const callback of state.callbacks) {
+      callback(intensity);
+    }
+  }
+}
+
+/**
+ * Weakest grid beat that still fires at the current sensitivity. A grid has
+ * every beat already, so sensitivity thins out the weak ones (downbeats always fire).
+ */
+function getGridBeatThreshold(): number {
+  return MAX_GRID_BEAT_THRESHOLD * (1 - beatSensitivity) ** 2;
+}
+
+/**
+ * Fire every grid event between the previous update and the current playback time.
+ * Returns true if a beat was fired.
+ */
+function updateFromBeatGrid(grid: BeatGrid, playbackTime: number, deltaTime: number): boolean {
+  // Playback restarted or jumped backwards - resume from the new position
+  if (playbackTime < lastGridTime) {
+    lastGridTime = playbackTime;
+  }
+
+  const windowStart = Math.max(lastGridTime, playbackTime - MAX_CATCHUP_SECONDS);
+  lastGridTime = playbackTime;
+
+  for (const event of getGridEventsInWindow(grid.transitions, windowStart, playbackTime)) {
+    for (const callback of transitionCallbacks) {
+      callback(event.intensity);
+    }
+  }
+
+  for (const event of getGridEventsInWindow(grid.heavyBeatShifts, windowStart, playbackTime)) {
+    for (const callback of heavyBeatShiftCallbacks) {
+      callback(event.intensity);
+    }
+  }
+
+  for (const cue of getGridEventsInWindow(grid.cues ?? [], windowStart, playbackTime)) {
+    for (const callback of cueCallbacks) {
+      callback(cue.name);
+    }
+  }
+
+  // Grid times are playback positions; report beats on the detection clock
+  const clockOffset = getDetectionTime() - playbackTime;
+  const minIntensity = getGridBeatThreshold();
+  const beats = getGridEventsInWindow(grid.beats, windowStart, playbackTime)
+    .filter(beat => beat.isDownbeat || beat.intensity >= minIntensity);
+  for (const beat of beats) {
+    currentBeatIntensity = beat.intensity;
+    for (const callback of beatCallbacks) {
+      callback(beat.intensity, beat.time + clockOffset);
+    }
+  }
+
+  if (beats.length > 0) {
+    return true;
+  }
+
+  // Decay beat intensity over time
+  currentBeatIntensity = Math.max(0, currentBeatIntensity - BEAT_INTENSITY_DECAY_PER_SECOND * deltaTime);
+
+  return false;
+}
+
+/**
+ * Get the grid events with start < time <= end.
+ */
+function getGridEventsInWindow<T extends { time: number }>(events: T[], start: number, end: number): T[] {
+  let index = findEventIndex(events, start);
+  while (index < events.length && events[index].time <= start) {
+    index++;
+  }
+
+  const result: T[] = [];
+  while (index < events.length && events[index].time <= end) {
+    result.push(events[index++]);
+  }
+  return result;
+}
+
 /**
  * Check for musical transitions (drops, breakdowns, etc.).
  * Transitions are detected by comparing recent energy to long-term average.
  */
 function checkForTransition(): void {
-  // Need enough history for comparison
-  if (longTermEnergyHistory.length < TRANSITION_HISTORY_SIZE) {
+  const now = getDetectionTime();
+
+  // Need a full long-term window for comparison
+  if (historyStartTime < 0 || now - historyStartTime < TRANSITION_HISTORY_SECONDS) {
     return;
   }
 
-  const now = performance.now();
   const timeSinceLastTransition = now - lastTransitionTime;
 
   // Enforce debounce: max 1 transition per 8 seconds
-  if (timeSinceLastTransition < MIN_TRANSITION_INTERVAL_MS) {
+  if (timeSinceLastTransition < MIN_TRANSITION_INTERVAL_SECONDS) {
     return;
   }
 
   const longTermAverage = getLongTermAverage();
-  const recentAverage = getRecentAverage();
+  const recentAverage = getRecentAverage(now);
 
   // Require minimum energy to avoid false positives during silence
-  if (longTermAverage < 15) {
+  if (longTermAverage < getLevelFloor(TRANSITION_FLOOR_FACTOR)) {
     return;
   }
 
@@ -295,16 +738,17 @@ function checkForTransition(): void {
 
 /**
  * Subscribe to beat events.
- * Callback receives the beat intensity (0-1).
+ * Callback receives the beat intensity (0-1) and the audio-clock time the beat
+ * happened at, which can be slightly earlier than when the callback runs.
  */
-export function onBeat(callback: (intensity: number) => void): void {
+export function onBeat(callback: (intensity: number, time: number) => void): void {
   beatCallbacks.push(callback);
 }
 
 /**
  * Unsubscribe from beat events.
  */
-export function offBeat(callback: (intensity: number) => void): void {
+export function offBeat(callback: (intensity: number, time: number) => void): void {
   beatCallbacks = beatCallbacks.filter(cb => cb !== callback);
 }
 
@@ -342,6 +786,85 @@ export function offHeavyBeatShift(callback: (intensity: number) => void): void {
   heavyBeatShiftCallbacks = heavyBeatShiftCallbacks.filter(cb => cb !== callback);
 }
 
+/**
+ * Subscribe to named cues from a hand-authored beat map.
+ * Callback receives the cue name. Cues only fire while playing a track whose
+ * beat grid carries them.
+ */
+export function onCue(callback: (name: string) => void): void {
+  cueCallbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from cue events.
+ */
+export function offCue(callback: (name: string) => void): void {
+  cueCallbacks = cueCallbacks.filter(cb => cb !== callback);
+}
+
+/**
+ * Subscribe to snare onset events (spectral flux in the 200-2000Hz mids).
+ * Callback receives the snare intensity (0-1).
+ */
+export function onSnare(callback: (intensity: number) => void): void {
+  snareOnsets.callbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from snare onset events.
+ */
+export function offSnare(callback: (intensity: number) => void): void {
+  snareOnsets.callbacks = snareOnsets.callbacks.filter(cb => cb !== callback);
+}
+
+/**
+ * Subscribe to hi-hat onset events (spectral flux in the 6-16kHz highs).
+ * Callback receives the hi-hat intensity (0-1).
+ */
+export function onHat(callback: (intensity: number) => void): void {
+  hatOnsets.callbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from hi-hat onset events.
+ */
+export function offHat(callback: (intensity: number) => void): void {
+  hatOnsets.callbacks = hatOnsets.callbacks.filter(cb => cb !== callback);
+}
+
+/**
+ * Set the beat detection sensitivity (0 = fewest beats, 1 = most beats, default 0.5).
+ * Shifts the threshold around its calibrated level; with a beat grid it
+ * sets how weak a grid beat can be and still fire.
+ */
+export function setBeatSensitivity(sensitivity: number): void {
+  if (!Number.isFinite(sensitivity)) return;
+  beatSensitivity = Math.min(1, Math.max(0, sensitivity));
+  onsetSource?.setSensitivity(beatSensitivity);
+}
+
+/**
+ * Get the beat detection sensitivity (0-1).
+ */
+export function getBeatSensitivity(): number {
+  return beatSensitivity;
+}
+
+/**
+ * Replace the source of sample-accurate onsets (null = frame-based detection).
+ */
+export function setOnsetSource(source: OnsetSource | null): void {
+  onsetSource = source;
+  onsetSource?.setSensitivity(beatSensitivity);
+}
+
+/**
+ * Get the source of sample-accurate onsets (null when detection is frame-based).
+ */
+export function getOnsetSource(): OnsetSource | null {
+  return onsetSource;
+}
+
 /**
  * Get the current beat intensity (0-1).
  * This value pulses high on beats and decays between them.
@@ -357,8 +880,21 @@ export function getBeatIntensity(): number {
 export function resetBeatDetection(): void {
   energyHistory = [];
   longTermEnergyHistory = [];
-  lastBeatTime = 0;
-  lastTransitionTime = 0;
-  lastHeavyBeatShiftTime = 0;
+  historyStartTime = -1;
+  lastUpdateTime = -1;
+  lastBeatTime = -Infinity;
+  lastTransitionTime = -Infinity;
+  lastHeavyBeatShiftTime = -Infinity;
   currentBeatIntensity = 0;
+  beatDeviations = INITIAL_BEAT_DEVIATIONS;
+  recentBeatTimes = [];
+  trackedBeatPeriod = 0;
+  referenceLevel = 0;
+  lastGridTime = -Infinity;
+  onsetSource?.reset();
+  for (const state of [snareOnsets, hatOnsets]) {
+    state.fluxHistory = [];
+    state.historyStartTime = -1;
+    state.lastOnsetTime = -Infinity;
+  }
 }
@@ -0,0 +1,445 @@
+/**
+ * Offline beat-grid analysis for decoded audio buffers.
+ * Runs once over the whole track and produces BPM, beat timestamps, downbeats,
+ * per-beat intensity and the transition / heavy beat shift moments, so playback
+ * can fire events from the audio clock instead of guessing frame by frame.
+ */
+
+// Analysis configuration
+const HOP_SIZE = 512; // Samples per analysis frame (~11.6ms at 44.1kHz)
+const KICK_CUTOFF_HZ = 150; // Low-pass cutoff isolating the kick drum band
+const ONSET_MEAN_WINDOW_SECONDS = 0.5; // Local mean subtracted from the onset envelope
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120; // Tempo prior - resolves half/double tempo ambiguity
+const BEAT_TIGHTNESS = 100; // Penalty for beat spacing that deviates from the period (higher = stricter tempo)
+const BEATS_PER_BAR = 4;
+const SILENCE_FACTOR = 0.1; // Frames below this fraction of median energy count as silence
+
+// Transition detection (mirrors the realtime detector in beatDetector.ts)
+const TRANSITION_RECENT_SECONDS = 0.5;
+const TRANSITION_LONG_TERM_SECONDS = 2;
+const TRANSITION_THRESHOLD = 2.0;
+const MIN_TRANSITION_INTERVAL_SECONDS = 8;
+
+// Heavy beat shift detection (mirrors the realtime detector in beatDetector.ts)
+const HEAVY_BEAT_THRESHOLD = 2.5;
+const HEAVY_BEAT_HISTORY_SECONDS = 0.5;
+const HEAVY_BEAT_PRE_SILENCE_SECONDS = 0.2;
+const HEAVY_BEAT_LOW_ENERGY_FACTOR = 0.5;
+const MIN_HEAVY_BEAT_INTERVAL_SECONDS = 2;
+
+export interface GridBeat {
+  time: number; // Seconds from the start of the track
+  intensity: number; // 0-1
+  isDownbeat: boolean;
+}
+
+export interface GridEvent {
+  time: number; // Seconds from the start of the track
+  intensity: number; // 0-1
+}
+
+export interface GridCue {
+  time: number; // Seconds from the start of the track
+  name: string;
+}
+
+export interface BeatGrid {
+  bpm: number;
+  duration: number;
+  beats: GridBeat[];
+  downbeats: number[]; // Timestamps of the first beat of each bar
+  transitions: GridEvent[];
+  heavyBeatShifts: GridEvent[];
+  cues?: GridCue[]; // Named choreography cues (only in hand-authored beat maps)
+}
+
+/**
+ * Analyze a decoded AudioBuffer and build its beat grid.
+ */
+export function analyzeAudioBuffer(buffer: AudioBuffer): BeatGrid {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+  return analyzeBeatGrid(channels, buffer.sampleRate);
+}
+
+/**
+ * Analyze raw PCM channel data and build its beat grid.
+ * Pure computation with no Web Audio dependency.
+ */
+export function analyzeBeatGrid(channels: Float32Array[], sampleRate: number): BeatGrid {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const duration = length / sampleRate;
+  const hopSeconds = HOP_SIZE / sampleRate;
+
+  const energy = computeKickEnergyEnvelope(channels, sampleRate);
+  const onset = computeOnsetEnvelope(energy, hopSeconds);
+
+  const empty: BeatGrid = { bpm: 0, duration, beats: [], downbeats: [], transitions: [], heavyBeatShifts: [] };
+  if (energy.length < 2) {
+    return empty;
+  }
+
+  const periodFrames = estimatePeriod(onset, hopSeconds);
+  if (periodFrames <= 0) {
+    return empty;
+  }
+
+  const beatFrames = trackBeats(onset, energy, periodFrames);
+  const bpm = 60 / (refinePeriod(beatFrames, periodFrames) * hopSeconds);
+  const beats = buildBeats(beatFrames, onset, hopSeconds);
+
+  return {
+    bpm,
+    duration,
+    beats,
+    downbeats: beats.filter(beat => beat.isDownbeat).map(beat => beat.time),
+    transitions: detectTransitions(energy, hopSeconds),
+    heavyBeatShifts: detectHeavyBeatShifts(beatFrames, energy, hopSeconds),
+  };
+}
+
+/**
+ * Mix down to mono, low-pass into the kick band and compute RMS per hop.
+ */
+function computeKickEnergyEnvelope(channels: Float32Array[], sampleRate: number): Float32Array {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const frameCount = Math.floor(length / HOP_SIZE);
+  const energy = new Float32Array(frameCount);
+
+  // Two cascaded one-pole low-pass filters (12 dB/octave)
+  const alpha = 1 - Math.exp(-2 * Math.PI * KICK_CUTOFF_HZ / sampleRate);
+  const channelScale = 1 / Math.max(1, channels.length);
+  let stage1 = 0;
+  let stage2 = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < HOP_SIZE; i++) {
+      let sample = 0;
+      for (const channel of channels) {
+        sample += channel[offset + i];
+      }
+      sample *= channelScale;
+
+      stage1 += alpha * (sample - stage1);
+      stage2 += alpha * (stage1 - stage2);
+      sum += stage2 * stage2;
+    }
+    energy[frame] = Math.sqrt(sum / HOP_SIZE);
+  }
+
+  return energy;
+}
+
+/**
+ * Onset strength: rectified rise of log-compressed energy minus its local mean.
+ */
+function computeOnsetEnvelope(energy: Float32Array, hopSeconds: number): Float32Array {
+  const flux = new Float32Array(energy.length);
+  for (let i = 1; i < energy.length; i++) {
+    const rise = Math.log1p(1000 * energy[i]) - Math.log1p(1000 * energy[i - 1]);
+    flux[i] = Math.max(0, rise);
+  }
+
+  const halfWindow = Math.max(1, Math.round(ONSET_MEAN_WINDOW_SECONDS / hopSeconds / 2));
+  const onset = new Float32Array(flux.length);
+  let windowSum = 0;
+  let windowStart = 0;
+  let windowEnd = 0;
+
+  for (let i = 0; i < flux.length; i++) {
+    // Slide a centered window [i - halfWindow, i + halfWindow]
+    while (windowEnd < flux.length && windowEnd <= i + halfWindow) {
+      windowSum += flux[windowEnd++];
+    }
+    while (windowStart < i - halfWindow) {
+      windowSum -= flux[windowStart++];
+    }
+    const mean = windowSum / (windowEnd - windowStart);
+    onset[i] = Math.max(0, flux[i] - mean);
+  }
+
+  return onset;
+}
+
+/**
+ * Estimate the beat period in frames by autocorrelating the onset envelope,
+ * weighted toward PREFERRED_BPM on a log-tempo scale.
+ */
+function estimatePeriod(onset: Float32Array, hopSeconds: number): number {
+  const minLag = Math.max(1, Math.floor(60 / MAX_BPM / hopSeconds));
+  const maxLag = Math.min(onset.length - 1, Math.ceil(60 / MIN_BPM / hopSeconds));
+  if (maxLag <= minLag) {
+    return 0;
+  }
+
+  const scores = new Float32Array(maxLag + 2);
+  let bestLag = 0;
+  let bestScore = 0;
+
+  for (let lag = minLag; lag <= maxLag + 1 && lag < onset.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < onset.length; i++) {
+      sum += onset[i] * onset[i - lag];
+    }
+    const bpm = 60 / (lag * hopSeconds);
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    const weight = Math.exp(-0.5 * octaves * octaves);
+    scores[lag] = (sum / (onset.length - lag)) * weight;
+
+    if (lag <= maxLag && scores[lag] > bestScore) {
+      bestScore = scores[lag];
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag === 0) {
+    return 0;
+  }
+
+  // Parabolic interpolation around the peak for sub-frame precision
+  const prev = scores[bestLag - 1] ?? 0;
+  const next = scores[bestLag + 1] ?? 0;
+  const denominator = prev - 2 * scores[bestLag] + next;
+  const shift = denominator !== 0 ? 0.5 * (prev - next) / denominator : 0;
+
+  return bestLag + Math.max(-0.5, Math.min(0.5, shift));
+}
+
+/**
+ * Track beats with dynamic programming: each beat is placed on a strong onset
+ * while keeping the spacing to the previous beat close to the estimated period.
+ * Tolerates small tempo drift and skips silent stretches.
+ */
+function trackBeats(onset: Float32Array, energy: Float32Array, periodFrames: number): number[] {
+  const length = onset.length;
+  const deviation = standardDeviation(onset) || 1;
+  const score = new Float64Array(length);
+  const backlink = new Int32Array(length).fill(-1);
+  const minGap = Math.max(1, Math.round(periodFrames / 2));
+  const maxGap = Math.round(periodFrames * 2);
+
+  for (let t = 0; t < length; t++) {
+    let bestPrevious = -1;
+    let bestPreviousScore = -Infinity;
+    for (let previous = Math.max(0, t - maxGap); previous <= t - minGap; previous++) {
+      const spacing = Math.log((t - previous) / periodFrames);
+      const candidate = score[previous] - BEAT_TIGHTNESS * spacing * spacing;
+      if (candidate > bestPreviousScore) {
+        bestPreviousScore = candidate;
+        bestPrevious = previous;
+      }
+    }
+
+    score[t] = onset[t] / deviation;
+    if (bestPrevious >= 0 && bestPreviousScore > 0) {
+      score[t] += bestPreviousScore;
+      backlink[t] = bestPrevious;
+    }
+  }
+
+  // Start the backtrace from the best-scoring frame within the final period
+  let frame = -1;
+  let bestFinalScore = -Infinity;
+  for (let t = Math.max(0, length - Math.ceil(periodFrames)); t < length; t++) {
+    if (score[t] > bestFinalScore) {
+      bestFinalScore = score[t];
+      frame = t;
+    }
+  }
+
+  const silenceLevel = median(energy) * SILENCE_FACTOR;
+  const beatFrames: number[] = [];
+  while (frame >= 0) {
+    if (energy[frame] > silenceLevel) {
+      beatFrames.push(frame);
+    }
+    frame = backlink[frame];
+  }
+
+  return beatFrames.reverse();
+}
+
+/**
+ * Average the tracked beat spacing (ignoring gaps over silence) for a more
+ * precise period than the autocorrelation lag resolution allows.
+ */
+function refinePeriod(beatFrames: number[], periodFrames: number): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 1; i < beatFrames.length; i++) {
+    const interval = beatFrames[i] - beatFrames[i - 1];
+    if (Math.abs(interval - periodFrames) < periodFrames * 0.25) {
+      sum += interval;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : periodFrames;
+}
+
+/**
+ * Attach intensity and downbeat flags to tracked beat frames.
+ */
+function buildBeats(beatFrames: number[], onset: Float32Array, hopSeconds: number): GridBeat[] {
+  const strengths = beatFrames.map(frame => onset[frame]);
+  const reference = percentile(strengths, 0.95) || 1;
+
+  // The bar phase whose beats are strongest on average marks the downbeats
+  const phaseSums = new Array<number>(BEATS_PER_BAR).fill(0);
+  strengths.forEach((strength, i) => {
+    phaseSums[i % BEATS_PER_BAR] += strength;
+  });
+  const downbeatPhase = phaseSums.indexOf(Math.max(...phaseSums));
+
+  return beatFrames.map((frame, i) => ({
+    time: frame * hopSeconds,
+    intensity: Math.min(1, Math.max(0, strengths[i] / reference)),
+    isDownbeat: i % BEATS_PER_BAR === downbeatPhase,
+  }));
+}
+
+/**
+ * Find drops and breakdowns by comparing a short energy window to a longer one.
+ */
+function detectTransitions(energy: Float32Array, hopSeconds: number): GridEvent[] {
+  const recentFrames = Math.max(1, Math.round(TRANSITION_RECENT_SECONDS / hopSeconds));
+  const longTermFrames = Math.max(recentFrames, Math.round(TRANSITION_LONG_TERM_SECONDS / hopSeconds));
+  const minimumEnergy = mean(energy) * 0.25;
+  const prefix = prefixSums(energy);
+  const transitions: GridEvent[] = [];
+  let lastTransitionTime = -Infinity;
+
+  for (let i = longTermFrames; i <= energy.length; i++) {
+    const time = i * hopSeconds;
+    if (time - lastTransitionTime < MIN_TRANSITION_INTERVAL_SECONDS) {
+      continue;
+    }
+
+    const longTermAverage = (prefix[i] - prefix[i - longTermFrames]) / longTermFrames;
+    const recentAverage = (prefix[i] - prefix[i - recentFrames]) / recentFrames;
+    if (longTermAverage < minimumEnergy || recentAverage <= 0) {
+      continue;
+    }
+
+    const energyRatio = recentAverage / longTermAverage;
+    let intensity = 0;
+    if (energyRatio > TRANSITION_THRESHOLD) {
+      intensity = Math.min(1, (energyRatio - TRANSITION_THRESHOLD) / TRANSITION_THRESHOLD);
+    } else if (energyRatio < 1 / TRANSITION_THRESHOLD) {
+      intensity = Math.min(1, ((1 / energyRatio) - TRANSITION_THRESHOLD) / TRANSITION_THRESHOLD);
+    }
+
+    if (intensity > 0.2) {
+      lastTransitionTime = time;
+      transitions.push({ time, intensity });
+    }
+  }
+
+  return transitions;
+}
+
+/**
+ * Find beats that spike well above the rolling average right after a quiet stretch.
+ */
+function detectHeavyBeatShifts(beatFrames: number[], energy: Float32Array, hopSeconds: number): GridEvent[] {
+  const historyFrames = Math.max(1, Math.round(HEAVY_BEAT_HISTORY_SECONDS / hopSeconds));
+  const preSilenceFrames = Math.max(1, Math.round(HEAVY_BEAT_PRE_SILENCE_SECONDS / hopSeconds));
+  const minimumEnergy = mean(energy) * 0.25;
+  const prefix = prefixSums(energy);
+  const shifts: GridEvent[] = [];
+  let lastShiftTime = -Infinity;
+
+  for (const frame of beatFrames) {
+    const time = frame * hopSeconds;
+    if (frame < historyFrames + 1 || time - lastShiftTime < MIN_HEAVY_BEAT_INTERVAL_SECONDS) {
+      continue;
+    }
+
+    const rollingAverage = (prefix[frame] - prefix[frame - historyFrames]) / historyFrames;
+    if (rollingAverage < minimumEnergy) {
+      continue;
+    }
+
+    // Peak energy just after the onset frame
+    let peak = 0;
+    for (let i = frame; i < Math.min(energy.length, frame + 4); i++) {
+      peak = Math.max(peak, energy[i]);
+    }
+    if (peak <= rollingAverage * HEAVY_BEAT_THRESHOLD) {
+      continue;
+    }
+
+    const preStart = Math.max(0, frame - preSilenceFrames - 1);
+    const preEnd = frame - 1;
+    const preSilenceAverage = (prefix[preEnd] - prefix[preStart]) / Math.max(1, preEnd - preStart);
+    if (preSilenceAverage >= rollingAverage * HEAVY_BEAT_LOW_ENERGY_FACTOR) {
+      continue;
+    }
+
+    lastShiftTime = time;
+    const rawIntensity = (peak / (rollingAverage * HEAVY_BEAT_THRESHOLD)) - 1;
+    shifts.push({ time, intensity: Math.min(1, Math.max(0, rawIntensity * 2)) });
+  }
+
+  return shifts;
+}
+
+/**
+ * Find the index of the first event at or after the given time (binary search).
+ */
+export function findEventIndex(events: { time: number }[], time: number): number {
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (events[mid].time < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function prefixSums(values: Float32Array): Float64Array {
+  const prefix = new Float64Array(values.length + 1);
+  for (let i = 0; i < values.length; i++) {
+    prefix[i + 1] = prefix[i] + values[i];
+  }
+  return prefix;
+}
+
+function mean(values: Float32Array): number {
+  if (values.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+  }
+  return sum / values.length;
+}
+
+function median(values: Float32Array): number {
+  if (values.length === 0) return 0;
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function standardDeviation(values: Float32Array): number {
+  const average = mean(values);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += (values[i] - average) ** 2;
+  }
+  return values.length > 0 ? Math.sqrt(sum / values.length) : 0;
+}
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
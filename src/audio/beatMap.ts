@@ -0,0 +1,264 @@
+/**
+ * Beat map module - a JSON format for hand-authored choreography.
+ * A beat map holds a track's BPM, its beat / transition / heavy beat shift
+ * timestamps with intensities, and optional named cues. Maps are exported from
+ * what beat detection fired during a play-through, edited by hand, and
+ * imported again to replace detection for that track.
+ *
+ * Format (times are seconds from the start of the track, intensities 0-1):
+ *   {
+ *     "version": 1,
+ *     "trackId": "my-song.mp3:4821933",
+ *     "bpm": 124,
+ *     "beats": [{ "time": 0.48, "intensity": 0.8 }, ...],
+ *     "transitions": [{ "time": 32.0, "intensity": 0.9 }],
+ *     "heavyShifts": [{ "time": 64.5, "intensity": 1 }],
+ *     "cues": [{ "name": "third-person", "time": 64.5 }]
+ *   }
+ */
+
+import { getCurrentTime, getIsPlaying, getLoadedTrack } from './audioPlayer';
+import type { LoadedTrack } from './audioPlayer';
+import { onBeat, onTransition, onHeavyBeatShift, onCue } from './beatDetector';
+import { getFrequencySource } from './frequencySource';
+import { getBPM } from './tempoTracker';
+import type { BeatGrid, GridEvent, GridCue } from './beatGrid';
+
+export const BEAT_MAP_VERSION = 1;
+
+export interface BeatMap {
+  version: number;
+  trackId: string; // Identifies the track the map belongs to (see getTrackId() in playlist.ts)
+  bpm: number;
+  beats: GridEvent[];
+  transitions: GridEvent[];
+  heavyShifts: GridEvent[];
+  cues?: GridCue[];
+}
+
+const BEATS_PER_BAR = 4; // Downbeats are every 4th beat (mirrors beatGrid.ts)
+const DUPLICATE_EVENT_SECONDS = 0.001; // Events this close are the same event (replayed after a seek)
+
+// State
+let recordedTrack: LoadedTrack | null = null; // Track the recorded events belong to
+let recordedBeats: GridEvent[] = [];
+let recordedTransitions: GridEvent[] = [];
+let recordedHeavyShifts: GridEvent[] = [];
+let recordedCues: GridCue[] = [];
+let recording = false;
+
+/**
+ * Check whether a file looks like a beat map.
+ */
+export function isBeatMapFile(file: File): boolean {
+  return file.type === 'application/json' || /\.json$/i.test(file.name);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readTime(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Beat map ${path} must be a non-negative number of seconds`);
+  }
+  return value;
+}
+
+function readEvents(value: unknown, path: string): GridEvent[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Beat map "${path}" must be an array`);
+  }
+
+  return value.map((entry, i) => {
+    if (!isRecord(entry)) {
+      throw new Error(`Beat map ${path}[${i}] must be an object with time and intensity`);
+    }
+    const intensity = entry.intensity ?? 1;
+    if (typeof intensity !== 'number' || !Number.isFinite(intensity)) {
+      throw new Error(`Beat map ${path}[${i}].intensity must be a number`);
+    }
+    return { time: readTime(entry.time, `${path}[${i}].time`), intensity: Math.min(1, Math.max(0, intensity)) };
+  });
+}
+
+function readCues(value: unknown): GridCue[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error('Beat map "cues" must be an array');
+  }
+
+  return value.map((entry, i) => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || entry.name.trim() === '') {
+      throw new Error(`Beat map cues[${i}] must have a name`);
+    }
+    return { time: readTime(entry.time, `cues[${i}].time`), name: entry.name.trim() };
+  });
+}
+
+function byTime(a: { time: number }, b: { time: number }): number {
+  return a.time - b.time;
+}
+
+/**
+ * Parse and validate a beat map. Events are sorted by time and intensities
+ * clamped to 0-1; a missing intensity counts as 1 (handy when adding beats by
+ * hand). Throws an Error describing the first problem found.
+ */
+export function parseBeatMap(text: string): BeatMap {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Beat map is not valid JSON');
+  }
+
+  if (!isRecord(data)) {
+    throw new Error('Beat map must be a JSON object');
+  }
+  if (data.version !== BEAT_MAP_VERSION) {
+    throw new Error(`Unsupported beat map version ${String(data.version)} (expected ${BEAT_MAP_VERSION})`);
+  }
+  if (typeof data.trackId !== 'string' || data.trackId === '') {
+    throw new Error('Beat map is missing its "trackId"');
+  }
+  if (typeof data.bpm !== 'number' || !Number.isFinite(data.bpm) || data.bpm < 0) {
+    throw new Error('Beat map "bpm" must be a non-negative number');
+  }
+  if (!Array.isArray(data.beats)) {
+    throw new Error('Beat map is missing its "beats" array');
+  }
+
+  return {
+    version: BEAT_MAP_VERSION,
+    trackId: data.trackId,
+    bpm: data.bpm,
+    beats: readEvents(data.beats, 'beats').sort(byTime),
+    transitions: readEvents(data.transitions, 'transitions').sort(byTime),
+    heavyShifts: readEvents(data.heavyShifts, 'heavyShifts').sort(byTime),
+    cues: readCues(data.cues).sort(byTime),
+  };
+}
+
+/**
+ * Serialize a beat map as indented JSON (times to the millisecond).
+ */
+export function serializeBeatMap(map: BeatMap): string {
+  const roundEvents = (events: GridEvent[]) => events.map(event => ({
+    time: Math.round(event.time * 1000) / 1000,
+    intensity: Math.round(event.intensity * 100) / 100,
+  }));
+
+  const output: BeatMap = {
+    version: map.version,
+    trackId: map.trackId,
+    bpm: Math.round(map.bpm * 100) / 100,
+    beats: roundEvents(map.beats),
+    transitions: roundEvents(map.transitions),
+    heavyShifts: roundEvents(map.heavyShifts),
+  };
+  if (map.cues && map.cues.length > 0) {
+    output.cues = map.cues.map(cue => ({ name: cue.name, time: Math.round(cue.time * 1000) / 1000 }));
+  }
+  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Build a beat grid from a beat map, so playback fires the map's events
+ * exactly like an analyzed grid.
+ * @param map - A parsed beat map
+ * @param duration - Track duration in seconds
+ */
+export function beatMapToGrid(map: BeatMap, duration: number): BeatGrid {
+  const beats = map.beats.map((beat, i) => ({ ...beat, isDownbeat: i % BEATS_PER_BAR === 0 }));
+  return {
+    bpm: map.bpm,
+    duration,
+    beats,
+    downbeats: beats.filter(beat => beat.isDownbeat).map(beat => beat.time),
+    transitions: map.transitions,
+    heavyBeatShifts: map.heavyShifts,
+    cues: map.cues ?? [],
+  };
+}
+
+/**
+ * The loaded track changed (new track, or a crossfade handed over) -
+ * start recording it from scratch. Returns false while nothing is playing.
+ */
+function syncRecordedTrack(): boolean {
+  if (!getIsPlaying()) return false;
+
+  const track = getLoadedTrack();
+  if (track !== recordedTrack) {
+    recordedTrack = track;
+    recordedBeats = [];
+    recordedTransitions = [];
+    recordedHeavyShifts = [];
+    recordedCues = [];
+  }
+  return track !== null;
+}
+
+/**
+ * Sort events and drop the duplicates a seek back through recorded audio leaves.
+ */
+function uniqueEvents<T extends { time: number; name?: string }>(events: T[]): T[] {
+  const sorted = [...events].sort(byTime);
+  return sorted.filter((event, i) => {
+    const previous = sorted[i - 1];
+    return !previous || event.time - previous.time > DUPLICATE_EVENT_SECONDS || event.name !== previous.name;
+  });
+}
+
+/**
+ * Start recording the events beat detection fires during playback.
+ */
+export function initBeatMapRecording(): void {
+  if (recording) return;
+  recording = true;
+
+  onBeat((intensity, time) => {
+    if (!syncRecordedTrack()) return;
+    // Beats carry their detection-clock time; convert it to a track position
+    const lateness = getFrequencySource().getCurrentTime() - time;
+    recordedBeats.push({ time: Math.max(0, getCurrentTime() - lateness), intensity });
+  });
+
+  onTransition((intensity) => {
+    if (!syncRecordedTrack()) return;
+    recordedTransitions.push({ time: getCurrentTime(), intensity });
+  });
+
+  onHeavyBeatShift((intensity) => {
+    if (!syncRecordedTrack()) return;
+    recordedHeavyShifts.push({ time: getCurrentTime(), intensity });
+  });
+
+  onCue((name) => {
+    if (!syncRecordedTrack()) return;
+    recordedCues.push({ time: getCurrentTime(), name });
+  });
+}
+
+/**
+ * Build a beat map from everything recorded for the loaded track so far.
+ * Returns null if nothing has been recorded for it.
+ * @param trackId - Id to store in the map
+ */
+export function getRecordedBeatMap(trackId: string): BeatMap | null {
+  if (!recordedTrack || recordedTrack !== getLoadedTrack()) {
+    return null;
+  }
+
+  return {
+    version: BEAT_MAP_VERSION,
+    trackId,
+    bpm: recordedTrack.beatGrid.bpm > 0 ? recordedTrack.beatGrid.bpm : getBPM(),
+    beats: uniqueEvents(recordedBeats),
+    transitions: uniqueEvents(recordedTransitions),
+    heavyShifts: uniqueEvents(recordedHeavyShifts),
+    cues: uniqueEvents(recordedCues),
+  };
+}
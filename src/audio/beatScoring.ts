@@ -0,0 +1,72 @@
+/**
+ * Scoring of detected event times against hand-labelled reference times.
+ * Uses the standard beat-tracking evaluation: each reference beat can be
+ * matched by at most one detection within a tolerance window, and the result
+ * is reported as precision, recall and F-measure.
+ */
+
+export interface EventScore {
+  precision: number; // Fraction of detections that matched a reference event
+  recall: number; // Fraction of reference events that were detected
+  fMeasure: number; // Harmonic mean of precision and recall
+  matched: number;
+  detected: number;
+  reference: number;
+}
+
+// MIREX beat tracking tolerance (+/- 70ms)
+export const DEFAULT_BEAT_TOLERANCE_SECONDS = 0.07;
+
+/**
+ * Match detections to reference events one-to-one within the tolerance and score them.
+ */
+export function scoreEvents(
+  detected: number[],
+  reference: number[],
+  toleranceSeconds: number = DEFAULT_BEAT_TOLERANCE_SECONDS
+): EventScore {
+  const detections = [...detected].sort((a, b) => a - b);
+  const references = [...reference].sort((a, b) => a - b);
+
+  // Both lists are sorted, so a greedy two-pointer sweep finds the maximum matching
+  let matched = 0;
+  let d = 0;
+  let r = 0;
+  while (d < detections.length && r < references.length) {
+    const difference = detections[d] - references[r];
+    if (Math.abs(difference) <= toleranceSeconds) {
+      matched++;
+      d++;
+      r++;
+    } else if (difference < 0) {
+      d++;
+    } else {
+      r++;
+    }
+  }
+
+  const precision = detections.length > 0 ? matched / detections.length : 0;
+  const recall = references.length > 0 ? matched / references.length : 0;
+  const fMeasure = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0;
+
+  return { precision, recall, fMeasure, matched, detected: detections.length, reference: references.length };
+}
+
+/**
+ * Parse a label file: one time in seconds per line (extra columns, blank
+ * lines and # comments are ignored), as exported by Sonic Visualiser,
+ * Audacity label tracks or the usual beat-tracking datasets.
+ */
+export function parseEventLabels(text: string): number[] {
+  const times: number[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) continue;
+
+    const time = parseFloat(trimmed.split(/[\s,]+/)[0]);
+    if (Number.isFinite(time)) {
+      times.push(time);
+    }
+  }
+  return times;
+}
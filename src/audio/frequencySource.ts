@@ -0,0 +1,195 @@
+/**
+ * Frequency source abstraction for audio feature extraction and beat detection.
+ * The live source reads the Web Audio AnalyserNode; the offline source runs
+ * its own FFT over PCM arrays and reproduces the AnalyserNode's byte spectrum
+ * (Blackman window, temporal smoothing, decibel mapping), so the detectors run
+ * headless in Node on decoded WAV files with the same tuning as in the browser.
+ */
+
+import { getFrequencyData, getTimeDomainData, getChannelTimeDomainData, getAnalyserNode, getFFTSize } from './audioAnalyser';
+import type { StereoChannel } from './audioAnalyser';
+import { getAudioContext } from './audioPlayer';
+import { fft } from './fft';
+
+export interface FrequencySource {
+  /** Byte spectrum (0-255 per bin), same layout as AnalyserNode.getByteFrequencyData(). */
+  getFrequencyData(): Uint8Array;
+  /** Current waveform (-1 to 1), same as AnalyserNode.getFloatTimeDomainData(). */
+  getTimeDomainData(): Float32Array;
+  /** Current waveform of one stereo channel (mono sources give the same data on both). */
+  getChannelTimeDomainData(channel: StereoChannel): Float32Array;
+  /** Decibel range the byte spectrum is mapped onto. */
+  getDecibelRange(): { min: number; max: number };
+  getSampleRate(): number;
+  /** Clock (seconds) that detection windows are measured on. */
+  getCurrentTime(): number;
+}
+
+export interface OfflineFrequencySource extends FrequencySource {
+  /** Move the analysis position to a time in seconds from the start of the PCM data. */
+  setTime(seconds: number): void;
+  /** Length of the PCM data in seconds. */
+  getDuration(): number;
+}
+
+export interface OfflineSourceOptions {
+  fftSize?: number;
+  smoothingTimeConstant?: number;
+  minDecibels?: number;
+  maxDecibels?: number;
+}
+
+// AnalyserNode defaults (smoothing matches initAnalyser())
+const DEFAULT_SMOOTHING = 0.8;
+const DEFAULT_MIN_DECIBELS = -100;
+const DEFAULT_MAX_DECIBELS = -30;
+const DEFAULT_SAMPLE_RATE = 44100;
+
+// State
+let activeSource: FrequencySource = createAnalyserFrequencySource();
+
+/**
+ * Create the live source backed by the shared AnalyserNode and AudioContext.
+ */
+export function createAnalyserFrequencySource(): FrequencySource {
+  return {
+    getFrequencyData,
+    getTimeDomainData,
+    getChannelTimeDomainData,
+    getDecibelRange: () => {
+      const analyser = getAnalyserNode();
+      return {
+        min: analyser?.minDecibels ?? DEFAULT_MIN_DECIBELS,
+        max: analyser?.maxDecibels ?? DEFAULT_MAX_DECIBELS,
+      };
+    },
+    getSampleRate: () => getAudioContext()?.sampleRate || DEFAULT_SAMPLE_RATE,
+    getCurrentTime: () => {
+      const audioContext = getAudioContext();
+      return audioContext ? audioContext.currentTime : performance.now() / 1000;
+    },
+  };
+}
+
+/**
+ * Create an offline source over raw PCM channel data.
+ * Call setTime() before each analysis step; the spectrum is computed from the
+ * fftSize samples ending at that time and smoothed against the previous call,
+ * exactly like an AnalyserNode polled once per frame.
+ */
+export function createOfflineFrequencySource(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: OfflineSourceOptions = {}
+): OfflineFrequencySource {
+  const fftSize = options.fftSize ?? getFFTSize();
+  const smoothing = options.smoothingTimeConstant ?? DEFAULT_SMOOTHING;
+  const minDecibels = options.minDecibels ?? DEFAULT_MIN_DECIBELS;
+  const maxDecibels = options.maxDecibels ?? DEFAULT_MAX_DECIBELS;
+
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const channelScale = 1 / Math.max(1, channels.length);
+  const binCount = fftSize / 2;
+
+  const blackman = new Float32Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    // Blackman window, as used by AnalyserNode
+    const phase = 2 * Math.PI * i / fftSize;
+    blackman[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+  }
+
+  const waveform = new Float32Array(fftSize);
+  const channelWaveforms: Record<StereoChannel, Float32Array> = {
+    left: new Float32Array(fftSize),
+    right: new Float32Array(fftSize),
+  };
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const smoothed = new Float32Array(binCount);
+  const bytes = new Uint8Array(binCount);
+
+  let time = 0;
+  let waveformTime = NaN; // Time the waveform buffer was filled for
+  let spectrumTime = NaN; // Time the byte spectrum was computed for
+
+  function fillWaveform(): void {
+    if (waveformTime === time) return;
+    waveformTime = time;
+
+    const end = Math.min(length, Math.floor(time * sampleRate));
+    const start = end - fftSize;
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      let sample = 0;
+      if (index >= 0) {
+        for (const channel of channels) {
+          sample += channel[index];
+        }
+      }
+      waveform[i] = sample * channelScale;
+    }
+  }
+
+  function fillChannelWaveform(channel: StereoChannel): Float32Array {
+    const target = channelWaveforms[channel];
+    const data = channels[channel === 'right' ? Math.min(1, channels.length - 1) : 0];
+    if (!data) return target;
+
+    const end = Math.min(length, Math.floor(time * sampleRate));
+    const start = end - fftSize;
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      target[i] = index >= 0 ? data[index] : 0;
+    }
+    return target;
+  }
+
+  return {
+    getFrequencyData: () => {
+      if (spectrumTime === time) return bytes;
+      spectrumTime = time;
+
+      fillWaveform();
+      for (let i = 0; i < fftSize; i++) {
+        real[i] = waveform[i] * blackman[i];
+        imag[i] = 0;
+      }
+      fft(real, imag);
+
+      const range = maxDecibels - minDecibels;
+      for (let k = 0; k < binCount; k++) {
+        const magnitude = Math.hypot(real[k], imag[k]) / fftSize;
+        smoothed[k] = smoothing * smoothed[k] + (1 - smoothing) * magnitude;
+        const db = smoothed[k] > 0 ? 20 * Math.log10(smoothed[k]) : -Infinity;
+        bytes[k] = Math.max(0, Math.min(255, Math.floor(255 / range * (db - minDecibels))));
+      }
+      return bytes;
+    },
+    getTimeDomainData: () => {
+      fillWaveform();
+      return waveform;
+    },
+    getChannelTimeDomainData: fillChannelWaveform,
+    getDecibelRange: () => ({ min: minDecibels, max: maxDecibels }),
+    getSampleRate: () => sampleRate,
+    getCurrentTime: () => time,
+    setTime: (seconds: number) => {
+      time = Math.max(0, seconds);
+    },
+    getDuration: () => length / sampleRate,
+  };
+}
+
+/**
+ * Replace the source that feature extraction and beat detection read from.
+ */
+export function setFrequencySource(source: FrequencySource): void {
+  activeSource = source;
+}
+
+/**
+ * Get the source that feature extraction and beat detection read from.
+ */
+export function getFrequencySource(): FrequencySource {
+  return activeSource;
+}
@@ -0,0 +1,174 @@
+/**
+ * Audio input capture module (microphone / line-in / USB audio interface).
+ * Uses getUserMedia to capture an input device for visualization.
+ * The chosen device is remembered between sessions.
+ */
+
+import { initAudio } from './audioPlayer';
+import { initAnalyser, getAnalyserNode } from './audioAnalyser';
+
+const DEVICE_STORAGE_KEY = 'zooming.inputDeviceId';
+
+let mediaStream: MediaStream | null = null;
+let mediaSource: MediaStreamAudioSourceNode | null = null;
+let isCapturing = false;
+let captureEndedCallbacks: (() => void)[] = [];
+
+/**
+ * List available audio input devices.
+ * Device labels are empty until the user has granted microphone permission once.
+ */
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!supportsInputAudio()) {
+    return [];
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+/**
+ * Get the device id chosen last time (null if none was saved).
+ */
+export function getSavedInputDeviceId(): string | null {
+  try {
+    return localStorage.getItem(DEVICE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveInputDeviceId(deviceId: string): void {
+  try {
+    localStorage.setItem(DEVICE_STORAGE_KEY, deviceId);
+  } catch {
+    // Storage unavailable (private mode) - the choice just isn't remembered
+  }
+}
+
+/**
+ * Request capture of an audio input device.
+ * Uses the given device, or the remembered one, falling back to the default input.
+ * Returns true if capture started successfully.
+ */
+export async function startInputCapture(deviceId?: string): Promise<boolean> {
+  try {
+    // Initialize audio context if needed
+    const audioContext = initAudio();
+
+    // Initialize analyser
+    initAnalyser();
+
+    stopInputCapture();
+
+    const requestedDeviceId = deviceId ?? getSavedInputDeviceId() ?? undefined;
+
+    // Disable voice processing - it mangles music (gates quiet passages, pumps levels)
+    const constraints: MediaTrackConstraints = {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    };
+
+    try {
+      mediaStream = await navigator.mediaDevices.getUserMedia({
+        audio: requestedDeviceId ? { ...constraints, deviceId: { exact: requestedDeviceId } } : constraints,
+      });
+    } catch (error) {
+      if (!requestedDeviceId) throw error;
+      // Remembered device is gone (unplugged interface) - fall back to the default input
+      console.warn('Could not open saved input device, using default:', error);
+      mediaStream = await navigator.mediaDevices.getUserMedia({ audio: constraints });
+    }
+
+    const audioTrack = mediaStream.getAudioTracks()[0];
+    if (!audioTrack) {
+      throw new Error('No audio track in input stream');
+    }
+    console.log('Input capture started:', audioTrack.label);
+
+    const actualDeviceId = audioTrack.getSettings().deviceId;
+    if (actualDeviceId) {
+      saveInputDeviceId(actualDeviceId);
+    }
+
+    // Create audio source from the stream
+    mediaSource = audioContext.createMediaStreamSource(mediaStream);
+
+    // Connect to analyser for visualization
+    const analyser = getAnalyserNode();
+    if (analyser) {
+      // The analyser only feeds analysis, so the input never reaches the speakers
+      // (it would feed back into the microphone)
+      mediaSource.connect(analyser);
+    }
+
+    // Resume audio context if suspended
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
+
+    isCapturing = true;
+
+    // Handle the device going away (unplugged, permission revoked)
+    audioTrack.onended = () => {
+      console.log('Input capture ended');
+      stopInputCapture();
+      for (const callback of captureEndedCallbacks) {
+        callback();
+      }
+    };
+
+    return true;
+  } catch (error) {
+    console.error('Failed to capture audio input:', error);
+    stopInputCapture();
+    return false;
+  }
+}
+
+/**
+ * Stop input capture and clean up.
+ */
+export function stopInputCapture(): void {
+  if (mediaStream) {
+    mediaStream.getTracks().forEach(track => track.stop());
+    mediaStream = null;
+  }
+
+  if (mediaSource) {
+    mediaSource.disconnect();
+    mediaSource = null;
+  }
+
+  isCapturing = false;
+}
+
+/**
+ * Check if an audio input is currently being captured.
+ */
+export function isInputCapturing(): boolean {
+  return isCapturing;
+}
+
+/**
+ * Subscribe to capture ending on its own (device unplugged, permission
+ * revoked), as opposed to stopInputCapture() being called.
+ */
+export function onInputCaptureEnded(callback: () => void): void {
+  captureEndedCallbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from capture ended events.
+ */
+export function offInputCaptureEnded(callback: () => void): void {
+  captureEndedCallbacks = captureEndedCallbacks.filter(cb => cb !== callback);
+}
+
+/**
+ * Check if the browser supports audio input capture.
+ */
+export function supportsInputAudio(): boolean {
+  return !!(navigator.mediaDevices && navigator.mediaDevices.getUserMedia);
+}
@@ -0,0 +1,248 @@
+/**
+ * Musical key detection module.
+ * Folds each frame's spectrum into a 12-bin chroma vector (energy per pitch
+ * class), averages it over the last several seconds, and correlates the
+ * average against the Krumhansl-Kessler major and minor key profiles to
+ * estimate the tonic and mode. Fires key change events so visuals can follow
+ * the harmony (the palette selector tints the city by key).
+ *
+ * Reads the AudioFeatures snapshot, so call updateAudioFeatures() first.
+ */
+
+import { getAudioFeatures } from './audioFeatures';
+import { getFrequencySource } from './frequencySource';
+
+export type KeyMode = 'major' | 'minor';
+
+export interface MusicalKey {
+  tonic: number; // Pitch class of the tonic (0 = C, 1 = C#, ... 11 = B)
+  mode: KeyMode;
+  confidence: number; // Correlation with the key profile (0-1)
+}
+
+export const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler probe-tone profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Pitch range folded into the chroma. Bins below the point where one FFT bin
+// spans more than a semitone are skipped too, since they smear across notes.
+const CHROMA_MIN_HZ = 130; // ~C3
+const CHROMA_MAX_HZ = 4200; // ~C8
+const SEMITONE_RATIO = Math.pow(2, 1 / 12) - 1;
+
+const CHROMA_TIME_CONSTANT_SECONDS = 12; // How long the harmony is remembered
+const MAX_FRAME_SECONDS = 0.25; // Cap on a single frame's weight (tab was hidden, etc.)
+const MIN_ANALYSIS_SECONDS = 4; // Audio needed before the first estimate
+const KEY_UPDATE_INTERVAL_SECONDS = 1;
+const MIN_KEY_CORRELATION = 0.3; // Weaker matches than this are not a key
+const KEY_SWITCH_MARGIN = 0.05; // A new key must beat the current one by this much
+const MIN_RMS = 0.01; // Quieter frames are ignored
+const MAX_FLATNESS = 0.5; // Noisier frames (no clear pitches) are ignored
+
+// State
+let pitchClassByBin: Int8Array = new Int8Array(0); // -1 for bins outside the chroma range
+let frameChroma = new Float32Array(12);
+let chroma = new Float32Array(12);
+let analyzedSeconds = 0;
+let secondsSinceEstimate = 0;
+let lastFrameTime = -1;
+let currentKey: MusicalKey | null = null;
+let keyChangeCallbacks: ((key: MusicalKey, previous: MusicalKey | null) => void)[] = [];
+
+/**
+ * Map every spectrum bin to its nearest pitch class.
+ */
+function buildPitchClassMap(binCount: number): Int8Array {
+  const map = new Int8Array(binCount);
+  map.fill(-1);
+  const hzPerBin = getFrequencySource().getSampleRate() / (binCount * 2);
+  const minHz = Math.max(CHROMA_MIN_HZ, hzPerBin / SEMITONE_RATIO);
+
+  for (let i = 1; i < binCount; i++) {
+    const frequency = i * hzPerBin;
+    if (frequency < minHz || frequency > CHROMA_MAX_HZ) continue;
+
+    // MIDI note 69 = A4 = 440 Hz, and MIDI note 0 is a C
+    const note = Math.round(69 + 12 * Math.log2(frequency / 440));
+    map[i] = ((note % 12) + 12) % 12;
+  }
+  return map;
+}
+
+/**
+ * Pearson correlation of a chroma vector with a key profile rotated to a tonic.
+ */
+function correlateProfile(vector: ArrayLike<number>, profile: number[], tonic: number): number {
+  let vectorMean = 0;
+  let profileMean = 0;
+  for (let i = 0; i < 12; i++) {
+    vectorMean += vector[i];
+    profileMean += profile[i];
+  }
+  vectorMean /= 12;
+  profileMean /= 12;
+
+  let covariance = 0;
+  let vectorVariance = 0;
+  let profileVariance = 0;
+  for (let i = 0; i < 12; i++) {
+    const v = vector[(i + tonic) % 12] - vectorMean;
+    const p = profile[i] - profileMean;
+    covariance += v * p;
+    vectorVariance += v * v;
+    profileVariance += p * p;
+  }
+
+  const denominator = Math.sqrt(vectorVariance * profileVariance);
+  return denominator > 0 ? covariance / denominator : 0;
+}
+
+/**
+ * Correlation of a chroma vector with one key (negative correlations count as 0).
+ */
+function scoreKey(vector: ArrayLike<number>, tonic: number, mode: KeyMode): number {
+  return Math.max(0, correlateProfile(vector, mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE, tonic));
+}
+
+/**
+ * Estimate the key of a 12-bin chroma vector (index 0 = C).
+ * Returns the best-matching of the 24 major and minor keys.
+ */
+export function estimateKey(vector: ArrayLike<number>): MusicalKey {
+  let best: MusicalKey = { tonic: 0, mode: 'major', confidence: 0 };
+  for (const mode of ['major', 'minor'] as KeyMode[]) {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      const confidence = scoreKey(vector, tonic, mode);
+      if (confidence > best.confidence) {
+        best = { tonic, mode, confidence };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Human-readable key name, e.g. "F# minor".
+ */
+export function formatKey(key: MusicalKey): string {
+  return `${PITCH_CLASS_NAMES[key.tonic]} ${key.mode}`;
+}
+
+/**
+ * Fold the current spectrum into frameChroma (normalized to sum to 1).
+ * Returns false if the frame has no usable pitch content.
+ */
+function computeFrameChroma(): boolean {
+  const { spectrum, rms, spectralFlatness } = getAudioFeatures();
+  if (spectrum.length === 0 || rms < MIN_RMS || spectralFlatness > MAX_FLATNESS) {
+    return false;
+  }
+
+  if (pitchClassByBin.length !== spectrum.length) {
+    pitchClassByBin = buildPitchClassMap(spectrum.length);
+  }
+
+  // Byte values map linearly onto the decibel range; convert to linear magnitude
+  const { min: minDb, max: maxDb } = getFrequencySource().getDecibelRange();
+  frameChroma.fill(0);
+  let total = 0;
+  for (let i = 0; i < spectrum.length; i++) {
+    const pitchClass = pitchClassByBin[i];
+    if (pitchClass < 0 || spectrum[i] === 0) continue;
+
+    const magnitude = Math.pow(10, (minDb + (spectrum[i] / 255) * (maxDb - minDb)) / 20);
+    frameChroma[pitchClass] += magnitude;
+    total += magnitude;
+  }
+
+  if (total <= 0) {
+    return false;
+  }
+  for (let i = 0; i < 12; i++) {
+    frameChroma[i] /= total;
+  }
+  return true;
+}
+
+/**
+ * Update key detection. Call this every frame after updateAudioFeatures().
+ * Fires key change events when the estimated key changes.
+ */
+export function updateKeyDetection(): void {
+  const time = getAudioFeatures().time;
+  const frameSeconds = lastFrameTime >= 0 ? Math.min(Math.max(0, time - lastFrameTime), MAX_FRAME_SECONDS) : 0;
+  lastFrameTime = time;
+
+  if (frameSeconds === 0 || !computeFrameChroma()) {
+    return;
+  }
+
+  // Exponential moving average, weighted by frame duration
+  const blend = 1 - Math.exp(-frameSeconds / CHROMA_TIME_CONSTANT_SECONDS);
+  for (let i = 0; i < 12; i++) {
+    chroma[i] += (frameChroma[i] - chroma[i]) * blend;
+  }
+  analyzedSeconds += frameSeconds;
+  secondsSinceEstimate += frameSeconds;
+
+  if (analyzedSeconds < MIN_ANALYSIS_SECONDS || secondsSinceEstimate < KEY_UPDATE_INTERVAL_SECONDS) {
+    return;
+  }
+  secondsSinceEstimate = 0;
+
+  const estimate = estimateKey(chroma);
+  if (currentKey && estimate.tonic === currentKey.tonic && estimate.mode === currentKey.mode) {
+    currentKey = estimate;
+    return;
+  }
+
+  // Hysteresis: only switch when the new key clearly fits better than the current one
+  const currentScore = currentKey ? scoreKey(chroma, currentKey.tonic, currentKey.mode) : 0;
+  if (estimate.confidence < MIN_KEY_CORRELATION || estimate.confidence < currentScore + KEY_SWITCH_MARGIN) {
+    return;
+  }
+
+  const previous = currentKey;
+  currentKey = estimate;
+  for (const callback of keyChangeCallbacks) {
+    callback(estimate, previous);
+  }
+}
+
+/**
+ * Get the current key estimate (null until enough music has been heard).
+ */
+export function getCurrentKey(): MusicalKey | null {
+  return currentKey;
+}
+
+/**
+ * Subscribe to key changes.
+ * Callback receives the new key and the previous one (null for the first estimate).
+ */
+export function onKeyChange(callback: (key: MusicalKey, previous: MusicalKey | null) => void): void {
+  keyChangeCallbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from key changes.
+ */
+export function offKeyChange(callback: (key: MusicalKey, previous: MusicalKey | null) => void): void {
+  keyChangeCallbacks = keyChangeCallbacks.filter(cb => cb !== callback);
+}
+
+/**
+ * Reset key detection state without firing events.
+ * Call this when starting a new track.
+ */
+export function resetKeyDetection(): void {
+  pitchClassByBin = new Int8Array(0);
+  frameChroma = new Float32Array(12);
+  chroma = new Float32Array(12);
+  analyzedSeconds = 0;
+  secondsSinceEstimate = 0;
+  lastFrameTime = -1;
+  currentKey = null;
+}
@@ -0,0 +1,151 @@
+/**
+ * Headless detection runner.
+ * Steps the realtime detectors (beat, transition, heavy beat shift, snare,
+ * hi-hat) over PCM data through an offline frequency source at a simulated
+ * frame rate and records when each event fired. Runs in Node, so detection
+ * quality can be measured against labelled tracks without a browser.
+ * The AudioWorklet's sample-based onset detector can be run the same way.
+ *
+ * The live path is exercised only when no beat grid is playing, which is
+ * always the case headless.
+ */
+
+import { createOfflineFrequencySource, getFrequencySource, setFrequencySource } from './frequencySource';
+import type { OfflineSourceOptions } from './frequencySource';
+import { updateAudioFeatures, resetAudioFeatures } from './audioFeatures';
+import {
+  updateBeatDetection,
+  resetBeatDetection,
+  onBeat,
+  offBeat,
+  onTransition,
+  offTransition,
+  onHeavyBeatShift,
+  offHeavyBeatShift,
+  onSnare,
+  offSnare,
+  onHat,
+  offHat,
+  getBeatSensitivity,
+  setBeatSensitivity,
+  getOnsetSource,
+  setOnsetSource,
+} from './beatDetector';
+import { createOnsetDetector } from './onsetDetector';
+
+export interface OfflineDetectionOptions extends OfflineSourceOptions {
+  frameRate?: number; // Simulated display frame rate (detector update rate)
+  sensitivity?: number; // Beat sensitivity 0-1 (defaults to the current setting)
+}
+
+/**
+ * Times (seconds from the start of the PCM data) at which each event fired.
+ */
+export interface DetectionResult {
+  beats: number[];
+  transitions: number[];
+  heavyBeatShifts: number[];
+  snares: number[];
+  hats: number[];
+}
+
+const DEFAULT_FRAME_RATE = 60;
+const RENDER_QUANTUM_SIZE = 128; // AudioWorklet block size
+
+/**
+ * Run the realtime detectors over raw PCM channel data.
+ * Detection state is reset before and after, and the previous frequency
+ * source and sensitivity are restored.
+ */
+export function runOfflineDetection(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: OfflineDetectionOptions = {}
+): DetectionResult {
+  const frameSeconds = 1 / (options.frameRate ?? DEFAULT_FRAME_RATE);
+  const source = createOfflineFrequencySource(channels, sampleRate, options);
+  const previousSource = getFrequencySource();
+  const previousSensitivity = getBeatSensitivity();
+  const previousOnsetSource = getOnsetSource();
+
+  const result: DetectionResult = { beats: [], transitions: [], heavyBeatShifts: [], snares: [], hats: [] };
+  const recordBeat = () => result.beats.push(source.getCurrentTime());
+  const recordTransition = () => result.transitions.push(source.getCurrentTime());
+  const recordHeavyBeatShift = () => result.heavyBeatShifts.push(source.getCurrentTime());
+  const recordSnare = () => result.snares.push(source.getCurrentTime());
+  const recordHat = () => result.hats.push(source.getCurrentTime());
+
+  setFrequencySource(source);
+  setOnsetSource(null); // Score the frame-based path, not live worklet onsets
+  if (options.sensitivity !== undefined) {
+    setBeatSensitivity(options.sensitivity);
+  }
+  resetAudioFeatures();
+  resetBeatDetection();
+  onBeat(recordBeat);
+  onTransition(recordTransition);
+  onHeavyBeatShift(recordHeavyBeatShift);
+  onSnare(recordSnare);
+  onHat(recordHat);
+
+  try {
+    const duration = source.getDuration();
+    for (let frame = 1; frame * frameSeconds <= duration; frame++) {
+      source.setTime(frame * frameSeconds);
+      updateAudioFeatures();
+      updateBeatDetection();
+    }
+  } finally {
+    offBeat(recordBeat);
+    offTransition(recordTransition);
+    offHeavyBeatShift(recordHeavyBeatShift);
+    offSnare(recordSnare);
+    offHat(recordHat);
+    resetAudioFeatures();
+    resetBeatDetection();
+    setBeatSensitivity(previousSensitivity);
+    setFrequencySource(previousSource);
+    setOnsetSource(previousOnsetSource);
+  }
+
+  return result;
+}
+
+/**
+ * Run the AudioWorklet onset detector over raw PCM channel data, fed in
+ * render-quantum blocks of the mono downmix exactly as the worklet sees them.
+ * Only beats, snares and hi-hats are detected at the sample level.
+ */
+export function runOnsetDetection(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: { sensitivity?: number } = {}
+): Pick<DetectionResult, 'beats' | 'snares' | 'hats'> {
+  const detector = createOnsetDetector(sampleRate);
+  if (options.sensitivity !== undefined) {
+    detector.setSensitivity(options.sensitivity);
+  }
+
+  const result = { beats: [] as number[], snares: [] as number[], hats: [] as number[] };
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const block = new Float32Array(RENDER_QUANTUM_SIZE);
+  const channelScale = 1 / Math.max(1, channels.length);
+
+  for (let start = 0; start + RENDER_QUANTUM_SIZE <= length; start += RENDER_QUANTUM_SIZE) {
+    for (let i = 0; i < RENDER_QUANTUM_SIZE; i++) {
+      let sample = 0;
+      for (const channel of channels) {
+        sample += channel[start + i];
+      }
+      block[i] = sample * channelScale;
+    }
+
+    detector.process(block, start / sampleRate, (event) => {
+      if (event.kind === 'beat') result.beats.push(event.time);
+      else if (event.kind === 'snare') result.snares.push(event.time);
+      else result.hats.push(event.time);
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,306 @@
+/**
+ * Sample-accurate onset detection.
+ * Band-pass filters the raw waveform into kick, snare and hi-hat bands,
+ * follows each band's energy envelope sample by sample, and detects onsets
+ * from envelope rises every hop (one 128-sample render quantum, ~3ms), so event
+ * times don't depend on the display frame rate.
+ *
+ * Pure DSP with no Web Audio or DOM dependencies: it runs inside the
+ * AudioWorklet (see worklets/onsetProcessor.ts) and headless in Node.
+ */
+
+export type OnsetKind = 'beat' | 'snare' | 'hat';
+
+export interface OnsetEvent {
+  kind: OnsetKind;
+  time: number; // Clock time (seconds) of the hop the onset was detected in
+  intensity: number; // 0-1, how far the rise exceeded the threshold
+}
+
+/**
+ * Where beat detection takes sample-accurate onsets from (the AudioWorklet in
+ * the browser). Events are queued by the source and drained once per frame.
+ */
+export interface OnsetSource {
+  /** Take every onset detected since the last call, oldest first. */
+  drainEvents(): OnsetEvent[];
+  setSensitivity(sensitivity: number): void;
+  /** Clear detection history and any queued onsets. */
+  reset(): void;
+}
+
+/**
+ * Messages exchanged with the onset AudioWorklet.
+ */
+export type OnsetWorkletCommand =
+  | { type: 'sensitivity'; value: number }
+  | { type: 'reset' };
+
+export interface OnsetWorkletMessage {
+  type: 'onsets';
+  events: OnsetEvent[];
+}
+
+export const ONSET_PROCESSOR_NAME = 'onset-processor';
+
+export interface OnsetDetector {
+  /**
+   * Process a block of mono samples.
+   * @param samples - Waveform (-1 to 1)
+   * @param startTime - Clock time of the first sample
+   * @param emit - Receives each onset as it is detected
+   */
+  process(samples: Float32Array, startTime: number, emit: (event: OnsetEvent) => void): void;
+  setSensitivity(sensitivity: number): void;
+  reset(): void;
+}
+
+/**
+ * Per-band tuning.
+ */
+interface BandConfig {
+  kind: OnsetKind;
+  lowHz: number;
+  highHz: number;
+  envelopeSeconds: number; // Envelope follower time constant (must span a waveform period)
+  riseSeconds: number; // Envelope rise is measured over this lag
+  deviations: number; // Threshold in standard deviations of the rise signal
+  adaptive: boolean; // Adapt the threshold toward the target beat rate
+  minIntervalSeconds: number;
+}
+
+const BANDS: BandConfig[] = [
+  { kind: 'beat', lowHz: 60, highHz: 150, envelopeSeconds: 0.012, riseSeconds: 0.02, deviations: 2.0, adaptive: true, minIntervalSeconds: 0.08 },
+  { kind: 'snare', lowHz: 200, highHz: 2000, envelopeSeconds: 0.005, riseSeconds: 0.01, deviations: 2.5, adaptive: false, minIntervalSeconds: 0.12 },
+  { kind: 'hat', lowHz: 6000, highHz: 16000, envelopeSeconds: 0.003, riseSeconds: 0.006, deviations: 2.5, adaptive: false, minIntervalSeconds: 0.06 },
+];
+
+const HOP_SIZE = 128; // One render quantum
+const HISTORY_SECONDS = 0.5; // Rolling window for the rise statistics
+const LEVEL_DECAY_PER_SECOND = 0.02; // How fast the reference level forgets loud passages
+const MIN_ABSOLUTE_LEVEL = 1e-4; // ~-80 dBFS envelope, always treated as silence
+const SILENCE_FLOOR_FACTOR = 0.05; // Band is silent below this fraction of its reference level
+const RISE_FLOOR_FACTOR = 0.1; // Rises smaller than this fraction of the reference level are ignored
+
+// Beat threshold adaptation (mirrors the frame-based detector)
+const MIN_BEAT_DEVIATIONS = 0.3;
+const MAX_BEAT_DEVIATIONS = 4.0;
+const TARGET_BEATS_PER_SECOND = 2;
+const BEAT_RATE_WINDOW_SECONDS = 8;
+const THRESHOLD_ADAPT_RATE = 0.25;
+const DEFAULT_SENSITIVITY = 0.5;
+const SENSITIVITY_DEVIATION_BIAS = 0.75;
+
+/**
+ * Band-pass biquad coefficients (RBJ cookbook, 0 dB peak gain).
+ */
+interface Biquad {
+  b0: number;
+  b2: number;
+  a1: number;
+  a2: number;
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+}
+
+function createBandPass(lowHz: number, highHz: number, sampleRate: number): Biquad {
+  const high = Math.min(highHz, sampleRate * 0.45);
+  const center = Math.sqrt(lowHz * high);
+  const q = center / Math.max(1, high - lowHz);
+  const w0 = 2 * Math.PI * center / sampleRate;
+  const alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+  return {
+    b0: alpha / a0,
+    b2: -alpha / a0,
+    a1: -2 * Math.cos(w0) / a0,
+    a2: (1 - alpha) / a0,
+    x1: 0, x2: 0, y1: 0, y2: 0,
+  };
+}
+
+function runBiquad(filter: Biquad, x: number): number {
+  const y = filter.b0 * x + filter.b2 * filter.x2 - filter.a1 * filter.y1 - filter.a2 * filter.y2;
+  filter.x2 = filter.x1;
+  filter.x1 = x;
+  filter.y2 = filter.y1;
+  filter.y1 = y;
+  return y;
+}
+
+/**
+ * Running state for one band.
+ */
+interface BandState {
+  config: BandConfig;
+  filters: Biquad[]; // Two cascaded band-passes for steeper skirts
+  envelopeCoefficient: number;
+  power: number; // Smoothed squared signal
+  envelopes: Float32Array; // Ring of recent hop envelopes (for the rise lag)
+  rises: Float32Array; // Ring of rise values over the history window
+  levels: Float32Array; // Ring of envelopes over the history window
+  riseSum: number;
+  riseSquareSum: number;
+  levelSum: number;
+  hopCount: number;
+  referenceLevel: number;
+  deviations: number;
+  lastOnsetTime: number;
+  recentOnsetTimes: number[];
+}
+
+/**
+ * Create an onset detector for the given sample rate.
+ */
+export function createOnsetDetector(sampleRate: number): OnsetDetector {
+  const hopSeconds = HOP_SIZE / sampleRate;
+  const historyHops = Math.max(1, Math.round(HISTORY_SECONDS / hopSeconds));
+  let sensitivity = DEFAULT_SENSITIVITY;
+  let hopPosition = 0; // Samples into the current hop
+  let bands: BandState[] = [];
+
+  function createBandState(config: BandConfig): BandState {
+    const lagHops = Math.max(1, Math.round(config.riseSeconds / hopSeconds));
+    return {
+      config,
+      filters: [
+        createBandPass(config.lowHz, config.highHz, sampleRate),
+        createBandPass(config.lowHz, config.highHz, sampleRate),
+      ],
+      envelopeCoefficient: 1 - Math.exp(-1 / (config.envelopeSeconds * sampleRate)),
+      power: 0,
+      envelopes: new Float32Array(lagHops + 1),
+      rises: new Float32Array(historyHops),
+      levels: new Float32Array(historyHops),
+      riseSum: 0,
+      riseSquareSum: 0,
+      levelSum: 0,
+      hopCount: 0,
+      referenceLevel: 0,
+      deviations: config.deviations,
+      lastOnsetTime: -Infinity,
+      recentOnsetTimes: [],
+    };
+  }
+
+  function reset(): void {
+    hopPosition = 0;
+    bands = BANDS.map(createBandState);
+  }
+
+  /**
+   * Threshold in standard deviations, with the user sensitivity applied to beats.
+   */
+  function getEffectiveDeviations(band: BandState): number {
+    if (!band.config.adaptive) return band.deviations;
+    const bias = (0.5 - sensitivity) * 2 * SENSITIVITY_DEVIATION_BIAS;
+    return Math.max(MIN_BEAT_DEVIATIONS, band.deviations + bias);
+  }
+
+  /**
+   * Nudge the beat threshold so the detected rate approaches the target rate.
+   */
+  function adaptThreshold(band: BandState, now: number, silent: boolean): void {
+    while (band.recentOnsetTimes.length > 0 && band.recentOnsetTimes[0] < now - BEAT_RATE_WINDOW_SECONDS) {
+      band.recentOnsetTimes.shift();
+    }
+    if (silent || band.hopCount * hopSeconds < BEAT_RATE_WINDOW_SECONDS) {
+      return;
+    }
+
+    const targetRate = TARGET_BEATS_PER_SECOND * Math.pow(2, (sensitivity - 0.5) * 2);
+    const rate = band.recentOnsetTimes.length / BEAT_RATE_WINDOW_SECONDS;
+    const error = Math.max(-1, Math.min(1, (rate - targetRate) / targetRate));
+    band.deviations += THRESHOLD_ADAPT_RATE * error * hopSeconds;
+    band.deviations = Math.max(MIN_BEAT_DEVIATIONS, Math.min(MAX_BEAT_DEVIATIONS, band.deviations));
+  }
+
+  /**
+   * Close a hop for one band: measure the envelope rise and test for an onset.
+   */
+  function endHop(band: BandState, hopTime: number, emit: (event: OnsetEvent) => void): void {
+    const envelope = Math.sqrt(band.power);
+
+    // Rise over the lag: the oldest entry in the envelope ring
+    const lagIndex = band.hopCount % band.envelopes.length;
+    const rise = Math.max(0, envelope - band.envelopes[lagIndex]);
+    band.envelopes[lagIndex] = envelope;
+
+    // Statistics of the rise signal before this hop
+    const filled = Math.min(band.hopCount, historyHops);
+    const mean = filled > 0 ? band.riseSum / filled : 0;
+    const variance = filled > 0 ? Math.max(0, band.riseSquareSum / filled - mean * mean) : 0;
+    const levelMean = filled > 0 ? band.levelSum / filled : 0;
+
+    // Slide the history window
+    const historyIndex = band.hopCount % historyHops;
+    if (band.hopCount >= historyHops) {
+      band.riseSum -= band.rises[historyIndex];
+      band.riseSquareSum -= band.rises[historyIndex] ** 2;
+      band.levelSum -= band.levels[historyIndex];
+    }
+    band.rises[historyIndex] = rise;
+    band.levels[historyIndex] = envelope;
+    band.riseSum += rise;
+    band.riseSquareSum += rise * rise;
+    band.levelSum += envelope;
+    band.hopCount++;
+
+    band.referenceLevel = Math.max(band.referenceLevel * Math.exp(-LEVEL_DECAY_PER_SECOND * hopSeconds), levelMean);
+    const silent = levelMean < Math.max(MIN_ABSOLUTE_LEVEL, band.referenceLevel * SILENCE_FLOOR_FACTOR);
+    if (band.config.adaptive) {
+      adaptThreshold(band, hopTime, silent);
+    }
+
+    // Need half a window of history before the statistics mean anything
+    if (filled < historyHops / 2 || silent) {
+      return;
+    }
+
+    const spread = Math.sqrt(variance);
+    const threshold = Math.max(mean + getEffectiveDeviations(band) * spread, band.referenceLevel * RISE_FLOOR_FACTOR);
+    if (rise <= threshold || hopTime - band.lastOnsetTime < band.config.minIntervalSeconds) {
+      return;
+    }
+
+    band.lastOnsetTime = hopTime;
+    if (band.config.adaptive) {
+      band.recentOnsetTimes.push(hopTime);
+    }
+
+    const intensity = Math.min(1, Math.max(0, (rise - threshold) / (2 * Math.max(spread, threshold * 0.1))));
+    emit({ kind: band.config.kind, time: hopTime, intensity });
+  }
+
+  reset();
+
+  return {
+    process: (samples, startTime, emit) => {
+      for (let i = 0; i < samples.length; i++) {
+        const x = samples[i];
+        for (const band of bands) {
+          const filtered = runBiquad(band.filters[1], runBiquad(band.filters[0], x));
+          band.power += (filtered * filtered - band.power) * band.envelopeCoefficient;
+        }
+
+        hopPosition++;
+        if (hopPosition === HOP_SIZE) {
+          hopPosition = 0;
+          // Stamp the onset at the start of the hop it was detected in
+          const hopTime = startTime + (i + 1 - HOP_SIZE) / sampleRate;
+          for (const band of bands) {
+            endHop(band, hopTime, emit);
+          }
+        }
+      }
+    },
+    setSensitivity: (value) => {
+      if (Number.isFinite(value)) {
+        sensitivity = Math.max(0, Math.min(1, value));
+      }
+    },
+    reset,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Onset worklet module.
+ * Loads the onset AudioWorklet, feeds it the analysed signal and hands beat
+ * detection an OnsetSource that queues the onsets the worklet posts back, so
+ * they fire with their exact audio-clock times - even when the renderer drops
+ * frames.
+ *
+ * Optional: if AudioWorklet isn't available (old browser, insecure context)
+ * or fails to load, beat detection keeps using its frame-based path.
+ */
+
+import processorUrl from './worklets/onsetProcessor.ts?worker&url';
+import { ONSET_PROCESSOR_NAME } from './onsetDetector';
+import type { OnsetEvent, OnsetSource, OnsetWorkletCommand, OnsetWorkletMessage } from './onsetDetector';
+import { setOnsetSource } from './beatDetector';
+
+// State
+let loading: Promise<boolean> | null = null;
+let workletNode: AudioWorkletNode | null = null;
+
+/**
+ * Wrap a running worklet node as an OnsetSource.
+ */
+function createWorkletOnsetSource(node: AudioWorkletNode): OnsetSource {
+  let pendingEvents: OnsetEvent[] = [];
+  const post = (command: OnsetWorkletCommand) => node.port.postMessage(command);
+
+  node.port.onmessage = (message: MessageEvent<OnsetWorkletMessage>) => {
+    if (message.data.type === 'onsets') {
+      pendingEvents.push(...message.data.events);
+    }
+  };
+
+  return {
+    drainEvents: () => {
+      const events = pendingEvents;
+      pendingEvents = [];
+      return events;
+    },
+    setSensitivity: (value) => post({ type: 'sensitivity', value }),
+    reset: () => {
+      pendingEvents = [];
+      post({ type: 'reset' });
+    },
+  };
+}
+
+/**
+ * Load the worklet, connect the analysed signal to it and make it beat
+ * detection's onset source. Call this whenever a source starts: the worklet
+ * is loaded once, but the signal is reconnected every time in case the
+ * previous source's routing dropped it. Resolves true once the worklet is
+ * running.
+ * @param audioContext - The shared AudioContext
+ * @param source - Node carrying the analysed signal (the analyser)
+ */
+export async function initOnsetWorklet(audioContext: AudioContext, source: AudioNode): Promise<boolean> {
+  if (!loading) {
+    loading = loadOnsetWorklet(audioContext);
+  }
+
+  if (!(await loading) || !workletNode) {
+    return false;
+  }
+  // Connecting an already connected pair is a no-op
+  source.connect(workletNode);
+  return true;
+}
+
+/**
+ * Load the worklet module and create its node.
+ */
+async function loadOnsetWorklet(audioContext: AudioContext): Promise<boolean> {
+  if (!audioContext.audioWorklet) {
+    console.warn('AudioWorklet not supported - using frame-based beat detection');
+    return false;
+  }
+
+  try {
+    await audioContext.audioWorklet.addModule(processorUrl);
+  } catch (error) {
+    console.warn('Onset worklet failed to load - using frame-based beat detection', error);
+    return false;
+  }
+
+  const node = new AudioWorkletNode(audioContext, ONSET_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+  });
+  // The processor outputs silence; connecting it keeps it pulled by the graph
+  node.connect(audioContext.destination);
+
+  workletNode = node;
+  setOnsetSource(createWorkletOnsetSource(node));
+  return true;
+}
@@ -0,0 +1,415 @@
+/**
+ * Playlist module for playing the built-in track and local audio files.
+ * Supports next/previous, shuffle and repeat. The upcoming track is decoded
+ * once, ahead of time, and queued so it crossfades in (or follows gaplessly)
+ * without resetting beat detection; a hard start resets detection instead.
+ */
+
+import {
+  prepareAudio,
+  prepareAudioFile,
+  setCurrentTrack,
+  crossfadeTo,
+  queueTrack,
+  clearQueuedTrack,
+  play,
+  stop,
+  getIsPlaying,
+  getCurrentTime,
+  getCrossfadeDuration,
+  getLoadedTrack,
+  onTrackEnded,
+  onQueuedTrackStarted,
+  AUDIO_PATH,
+} from './audioPlayer';
+import type { LoadedTrack } from './audioPlayer';
+import { resetBeatDetection } from './beatDetector';
+import { resetAudioFeatures } from './audioFeatures';
+import { resetTempoTracking } from './tempoTracker';
+import { resetSectionTracking } from './sectionTracker';
+import { resetKeyDetection } from './keyDetector';
+import { resetStereoAnalysis } from './stereoAnalysis';
+import { beatMapToGrid } from './beatMap';
+import type { BeatMap } from './beatMap';
+
+export interface PlaylistTrack {
+  name: string;
+  url?: string; // Remote/bundled track
+  file?: File; // Local file from drag and drop or the file dialog
+}
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+// Outcome of starting a track ('busy' = another track was still loading)
+export type PlayResult = 'playing' | 'busy' | 'failed';
+
+// Restart the current track instead of going back if we're past this point
+const PREVIOUS_RESTART_SECONDS = 3;
+
+export const BUILTIN_TRACK: PlaylistTrack = { name: 'Synthwave (built-in)', url: AUDIO_PATH };
+
+// State
+let tracks: PlaylistTrack[] = [];
+let order: number[] = []; // Playback order (track indices), shuffled when shuffle is on
+let orderPosition = -1; // Position of the current track within `order`
+let shuffle = false;
+let repeat: RepeatMode = 'all';
+let isLoading = false;
+let currentLoaded: LoadedTrack | null = null; // Decoded audio of the current track
+let upcomingTrack: PlaylistTrack | null = null; // Track preloaded (or preloading) to follow the current one
+let upcomingLoad: Promise<LoadedTrack> | null = null; // Its decode, shared by the queue and playAt()
+let queuedPosition = -1; // Position in `order` of the track queued to follow the current one
+let trackChangeCallbacks: ((track: PlaylistTrack | null) => void)[] = [];
+let beatMaps = new Map<string, BeatMap>(); // Imported beat maps by track id
+let initialized = false;
+
+/**
+ * Check whether a file looks like something the browser can decode as audio.
+ */
+export function isAudioFile(file: File): boolean {
+  return file.type.startsWith('audio/') || /\.(mp3|wav|ogg|oga|flac|m4a|aac|opus|webm)$/i.test(file.name);
+}
+
+/**
+ * Rebuild the playback order, keeping the current track at the current position.
+ */
+function rebuildOrder(): void {
+  const currentIndex = orderPosition >= 0 ? order[orderPosition] : -1;
+  order = tracks.map((_, i) => i);
+
+  if (shuffle) {
+    // Fisher-Yates shuffle, then move the current track to the front
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    if (currentIndex >= 0) {
+      order.splice(order.indexOf(currentIndex), 1);
+      order.unshift(currentIndex);
+    }
+  }
+
+  orderPosition = currentIndex >= 0 ? order.indexOf(currentIndex) : -1;
+}
+
+function initPlaylist(): void {
+  if (initialized) return;
+  onTrackEnded(handleTrackEnded);
+  onQueuedTrackStarted(handleQueuedTrackStarted);
+  initialized = true;
+}
+
+/**
+ * Identify a track for beat maps: the file name and size for local files
+ * (so different files with the same name don't share a map), the last path
+ * segment for remote tracks.
+ */
+export function getTrackId(track: PlaylistTrack): string {
+  if (track.file) return `${track.file.name}:${track.file.size}`;
+  return track.url?.split('/').pop() || track.name;
+}
+
+/**
+ * Decode a playlist track. An imported beat map replaces the analyzed grid.
+ */
+async function prepareTrack(track: PlaylistTrack): Promise<LoadedTrack> {
+  const loaded = await (track.file ? prepareAudioFile(track.file) : prepareAudio(track.url));
+  const beatMap = beatMaps.get(getTrackId(track));
+  if (beatMap) {
+    loaded.beatGrid = beatMapToGrid(beatMap, loaded.buffer.duration);
+  }
+  return loaded;
+}
+
+/**
+ * Position in `order` of the track that follows the current one (-1 for none).
+ */
+function getUpcomingPosition(): number {
+  if (orderPosition < 0 || order.length === 0) return -1;
+  if (repeat === 'one') return orderPosition;
+  if (orderPosition < order.length - 1) return orderPosition + 1;
+  return repeat === 'all' ? 0 : -1;
+}
+
+/**
+ * Forget the preloaded upcoming track.
+ */
+function resetUpcomingTrack(): void {
+  upcomingTrack = null;
+  upcomingLoad = null;
+  queuedPosition = -1;
+}
+
+/**
+ * Decode the upcoming track and queue it behind the current one.
+ * Called whenever the current track, order or repeat mode changes; the queue
+ * is only rebuilt when that changes which track comes next.
+ */
+async function queueUpcomingTrack(): Promise<void> {
+  const position = getUpcomingPosition();
+  const track = position >= 0 ? tracks[order[position]] : null;
+  if (track && track === upcomingTrack) {
+    // Same track, maybe at a new position in the order (still decoding otherwise)
+    if (queuedPosition >= 0) queuedPosition = position;
+    return;
+  }
+
+  clearQueuedTrack();
+  resetUpcomingTrack();
+  if (!track) return;
+
+  // Repeat-one follows with the same decoded buffer
+  const load = position === orderPosition && currentLoaded ? Promise.resolve(currentLoaded) : prepareTrack(track);
+  upcomingTrack = track;
+  upcomingLoad = load;
+
+  let loaded: LoadedTrack;
+  try {
+    loaded = await load;
+  } catch (error) {
+    // The current track will just end and handleTrackEnded() retries normally
+    console.warn(`Failed to preload track "${track.name}":`, error);
+    if (upcomingLoad === load) resetUpcomingTrack();
+    return;
+  }
+
+  // The playlist moved on while we were decoding
+  if (upcomingLoad !== load) return;
+
+  queuedPosition = getUpcomingPosition();
+  queueTrack(loaded);
+}
+
+/**
+ * The queued track took over from the previous one.
+ */
+function handleQueuedTrackStarted(): void {
+  if (queuedPosition < 0) return;
+  orderPosition = queuedPosition;
+  currentLoaded = getLoadedTrack();
+  resetUpcomingTrack();
+
+  for (const callback of trackChangeCallbacks) {
+    callback(tracks[order[orderPosition]]);
+  }
+  queueUpcomingTrack();
+}
+
+/**
+ * Advance when a track plays to its end, honoring the repeat mode.
+ * Only reached when no upcoming track was queued in time.
+ */
+async function handleTrackEnded(): Promise<void> {
+  let result: PlayResult = 'failed';
+  if (repeat === 'one') {
+    result = await playAt(orderPosition);
+  } else if (orderPosition < order.length - 1 || repeat === 'all') {
+    result = await playNext();
+  }
+
+  // End of the playlist with repeat off, or the next track failed to load
+  // (unless the user already picked another track that is still loading)
+  if (result === 'failed') {
+    for (const callback of trackChangeCallbacks) {
+      callback(null);
+    }
+  }
+}
+
+/**
+ * Load and play the track at the given position in the playback order.
+ * Crossfades from the current track when one is playing.
+ */
+async function playAt(position: number): Promise<PlayResult> {
+  if (isLoading) {
+    return 'busy';
+  }
+  if (order.length === 0) {
+    return 'failed';
+  }
+
+  const targetPosition = ((position % order.length) + order.length) % order.length;
+  const track = tracks[order[targetPosition]];
+
+  isLoading = true;
+  let loaded: LoadedTrack;
+  try {
+    // Skipping to the preloaded track reuses its decode
+    loaded = await (track === upcomingTrack && upcomingLoad ? upcomingLoad : prepareTrack(track));
+  } catch (error) {
+    console.error(`Failed to load track "${track.name}":`, error);
+    return 'failed';
+  } finally {
+    isLoading = false;
+  }
+
+  orderPosition = targetPosition;
+  currentLoaded = loaded;
+  resetUpcomingTrack();
+
+  if (getIsPlaying() && getCrossfadeDuration() > 0) {
+    // Blend into the new track - detection keeps running through the fade
+    crossfadeTo(loaded);
+  } else {
+    stop();
+    setCurrentTrack(loaded);
+
+    // New track: detection history from the previous one no longer applies
+    resetAudioFeatures();
+    resetBeatDetection();
+    resetTempoTracking();
+    resetSectionTracking();
+    resetKeyDetection();
+    resetStereoAnalysis();
+    play();
+  }
+
+  for (const callback of trackChangeCallbacks) {
+    callback(track);
+  }
+  queueUpcomingTrack();
+  return 'playing';
+}
+
+/**
+ * Add tracks to the end of the playlist.
+ * Returns the index of the first added track.
+ */
+export function addTracks(newTracks: PlaylistTrack[]): number {
+  initPlaylist();
+  const firstIndex = tracks.length;
+  tracks.push(...newTracks);
+  rebuildOrder();
+  requeueUpcomingTrack();
+  return firstIndex;
+}
+
+/**
+ * Add local audio files to the playlist (non-audio files are skipped).
+ * Returns the number of tracks added.
+ */
+export function addFiles(files: FileList | File[]): number {
+  const audioFiles = Array.from(files).filter(isAudioFile);
+  addTracks(audioFiles.map(file => ({ name: file.name.replace(/\.[^.]+$/, ''), file })));
+  return audioFiles.length;
+}
+
+/**
+ * Play the track at the given playlist index.
+ */
+export async function playTrack(index: number): Promise<PlayResult> {
+  if (index < 0 || index >= tracks.length) {
+    return 'failed';
+  }
+  return playAt(order.indexOf(index));
+}
+
+/**
+ * Skip to the next track (wraps around).
+ */
+export async function playNext(): Promise<PlayResult> {
+  return playAt(orderPosition + 1);
+}
+
+/**
+ * Go back to the previous track, or restart the current one if it has been
+ * playing for more than a few seconds.
+ */
+export async function playPrevious(): Promise<PlayResult> {
+  if (getCurrentTime() > PREVIOUS_RESTART_SECONDS) {
+    return playAt(orderPosition);
+  }
+  return playAt(orderPosition - 1);
+}
+
+/**
+ * Turn shuffle on or off. The current track keeps playing.
+ */
+export function setShuffle(enabled: boolean): void {
+  shuffle = enabled;
+  rebuildOrder();
+  requeueUpcomingTrack();
+}
+
+export function getShuffle(): boolean {
+  return shuffle;
+}
+
+export function setRepeat(mode: RepeatMode): void {
+  repeat = mode;
+  requeueUpcomingTrack();
+}
+
+export function getRepeat(): RepeatMode {
+  return repeat;
+}
+
+/**
+ * Cycle repeat mode: all -> one -> off -> all.
+ */
+export function cycleRepeat(): RepeatMode {
+  const modes: RepeatMode[] = ['all', 'one', 'off'];
+  setRepeat(modes[(modes.indexOf(repeat) + 1) % modes.length]);
+  return repeat;
+}
+
+/**
+ * The upcoming track may have changed - queue the right one.
+ */
+function requeueUpcomingTrack(): void {
+  if (orderPosition >= 0) {
+    queueUpcomingTrack();
+  }
+}
+
+/**
+ * Use a beat map instead of beat detection for the track it belongs to.
+ * Applies right away if that track is playing, otherwise the next time it loads.
+ * Returns false if no track in the playlist matches the map's track id yet.
+ */
+export function importBeatMap(map: BeatMap): boolean {
+  beatMaps.set(map.trackId, map);
+
+  // Set on the current track's own decode - mid-crossfade the player still reports the outgoing one
+  const current = getCurrentTrack();
+  if (current && currentLoaded && getTrackId(current) === map.trackId) {
+    currentLoaded.beatGrid = beatMapToGrid(map, currentLoaded.buffer.duration);
+  }
+
+  // The preloaded upcoming track may be this one, decoded with its old grid
+  if (upcomingTrack && getTrackId(upcomingTrack) === map.trackId) {
+    upcomingLoad?.then(loaded => {
+      loaded.beatGrid = beatMapToGrid(map, loaded.buffer.duration);
+    }, () => {});
+  }
+  return tracks.some(track => getTrackId(track) === map.trackId);
+}
+
+/**
+ * Get all tracks in playlist (insertion) order.
+ */
+export function getTracks(): PlaylistTrack[] {
+  return tracks;
+}
+
+/**
+ * Get the currently selected track.
+ */
+export function getCurrentTrack(): PlaylistTrack | null {
+  return orderPosition >= 0 ? tracks[order[orderPosition]] : null;
+}
+
+/**
+ * Subscribe to track changes.
+ * Callback receives the new track, or null when the playlist finished.
+ */
+export function onTrackChange(callback: (track: PlaylistTrack | null) => void): void {
+  trackChangeCallbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from track changes.
+ */
+export function offTrackChange(callback: (track: PlaylistTrack | null) => void): void {
+  trackChangeCallbacks = trackChangeCallbacks.filter(cb => cb !== callback);
+}
@@ -0,0 +1,73 @@
+/**
+ * Song section tracking module.
+ * Follows playback through the sections found by the offline structure
+ * analysis and fires section change events, so the camera and effects can
+ * change mood per section (build, drop, breakdown...) rather than reacting
+ * to raw energy jumps.
+ *
+ * Live sources (system audio, line-in) have no decoded buffer, so there is no
+ * current section while they play.
+ */
+
+import { getSongSections, getIsPlaying, getCurrentTime } from './audioPlayer';
+import { findSectionIndex } from './songStructure';
+import type { SongSection } from './songStructure';
+
+// State
+let currentSection: SongSection | null = null;
+let sectionChangeCallbacks: ((section: SongSection | null, previous: SongSection | null) => void)[] = [];
+
+/**
+ * Update section tracking. Call this every frame.
+ * Fires section change events when playback crosses a section boundary.
+ */
+export function updateSectionTracking(): void {
+  const sections = getSongSections();
+  let section: SongSection | null = null;
+
+  if (getIsPlaying() && sections.length > 0) {
+    const index = findSectionIndex(sections, getCurrentTime());
+    section = index >= 0 ? sections[index] : null;
+  }
+
+  if (section === currentSection) {
+    return;
+  }
+
+  const previous = currentSection;
+  currentSection = section;
+  for (const callback of sectionChangeCallbacks) {
+    callback(section, previous);
+  }
+}
+
+/**
+ * Get the section currently playing (null for live sources or when stopped).
+ */
+export function getCurrentSection(): SongSection | null {
+  return currentSection;
+}
+
+/**
+ * Subscribe to section changes.
+ * Callback receives the new section (null when leaving structured playback)
+ * and the previous one.
+ */
+export function onSectionChange(callback: (section: SongSection | null, previous: SongSection | null) => void): void {
+  sectionChangeCallbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from section changes.
+ */
+export function offSectionChange(callback: (section: SongSection | null, previous: SongSection | null) => void): void {
+  sectionChangeCallbacks = sectionChangeCallbacks.filter(cb => cb !== callback);
+}
+
+/**
+ * Reset section tracking state without firing events.
+ * Call this when starting a new track.
+ */
+export function resetSectionTracking(): void {
+  currentSection = null;
+}
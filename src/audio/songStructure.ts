@@ -0,0 +1,365 @@
+/**
+ * Offline song structure analysis for decoded audio buffers.
+ * Segments the whole track into sections by finding novelty peaks in a
+ * self-similarity matrix of per-frame timbre/energy features, then labels each
+ * section (intro, build, drop, breakdown, outro) from its energy contour.
+ */
+
+import { findEventIndex } from './beatGrid';
+
+// Analysis configuration
+const FRAME_SECONDS = 0.5; // Feature frame length
+const HOP_SIZE = 512; // Sub-frame size for the percussiveness measure
+const LOW_CUTOFF_HZ = 150; // Kick / bass band
+const MID_CUTOFF_HZ = 2000; // Upper edge of the mid band
+const FEATURE_SMOOTHING_FRAMES = 2; // Moving-average radius applied to features
+const KERNEL_RADIUS_SECONDS = 8; // Half-width of the checkerboard novelty kernel
+const MIN_SECTION_SECONDS = 8; // Sections shorter than this are merged away
+const NOVELTY_THRESHOLD = 0.5; // Peaks must exceed mean + this many standard deviations
+const DOWNBEAT_SNAP_SECONDS = 2; // Boundaries move to a downbeat this close
+
+// Labeling configuration (levels are 0-1 relative to the quietest/loudest section)
+const DROP_LEVEL = 0.7; // Sections at or above this level are drops
+const BUILD_RISE = 0.15; // Level rise across a section (leading into something louder) that marks a build
+const MIN_LEVEL_RANGE_DB = 3; // Below this spread the whole track is one intensity
+const SILENCE_DB = -100;
+
+export type SectionLabel = 'intro' | 'build' | 'drop' | 'breakdown' | 'outro';
+
+export interface SongSection {
+  label: SectionLabel;
+  time: number; // Section start in seconds from the start of the track
+  end: number; // Section end in seconds
+  energy: number; // 0-1 level relative to the rest of the track
+}
+
+interface FrameFeatures {
+  vectors: Float32Array[]; // Standardized feature vector per frame
+  levels: Float32Array; // Loudness per frame in dB
+}
+
+/**
+ * Analyze a decoded AudioBuffer and segment it into sections.
+ * Boundaries are snapped to the given downbeats when one is close.
+ */
+export function analyzeBufferStructure(buffer: AudioBuffer, downbeats: number[] = []): SongSection[] {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+  return analyzeSongStructure(channels, buffer.sampleRate, downbeats);
+}
+
+/**
+ * Analyze raw PCM channel data and segment it into labeled sections.
+ * Pure computation with no Web Audio dependency.
+ */
+export function analyzeSongStructure(channels: Float32Array[], sampleRate: number, downbeats: number[] = []): SongSection[] {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const duration = length / sampleRate;
+  if (duration <= 0) {
+    return [];
+  }
+
+  const { vectors, levels } = computeFrameFeatures(channels, sampleRate);
+  const kernelRadius = Math.round(KERNEL_RADIUS_SECONDS / FRAME_SECONDS);
+  const minSectionFrames = Math.round(MIN_SECTION_SECONDS / FRAME_SECONDS);
+
+  const novelty = computeNovelty(vectors, kernelRadius);
+  const boundaries = pickBoundaries(novelty, minSectionFrames)
+    .map(frame => snapToDownbeat(frame * FRAME_SECONDS, downbeats));
+
+  const times = [0, ...boundaries, duration];
+  const sections: SongSection[] = [];
+  for (let i = 0; i < times.length - 1; i++) {
+    if (times[i + 1] - times[i] > 0) {
+      sections.push({ label: 'drop', time: times[i], end: times[i + 1], energy: 0 });
+    }
+  }
+
+  labelSections(sections, levels);
+  return mergeSections(sections);
+}
+
+/**
+ * Find the section playing at the given time (-1 before the first section).
+ */
+export function findSectionIndex(sections: SongSection[], time: number): number {
+  const index = findEventIndex(sections, time);
+  if (index < sections.length && sections[index].time <= time) {
+    return index;
+  }
+  return index - 1;
+}
+
+/**
+ * Per-frame features: log energies in three bands plus percussiveness
+ * (how much the low band jumps between hops), smoothed and standardized.
+ */
+function computeFrameFeatures(channels: Float32Array[], sampleRate: number): FrameFeatures {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const frameSize = Math.max(HOP_SIZE, Math.round(FRAME_SECONDS * sampleRate));
+  const frameCount = Math.max(1, Math.floor(length / frameSize));
+  const hopsPerFrame = Math.max(1, Math.floor(frameSize / HOP_SIZE));
+
+  const lowAlpha = 1 - Math.exp(-2 * Math.PI * LOW_CUTOFF_HZ / sampleRate);
+  const midAlpha = 1 - Math.exp(-2 * Math.PI * MID_CUTOFF_HZ / sampleRate);
+  const channelScale = 1 / Math.max(1, channels.length);
+  let low = 0;
+  let lowMid = 0;
+
+  const raw: number[][] = [];
+  const levels = new Float32Array(frameCount);
+  let previousHopLow = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let lowSum = 0;
+    let midSum = 0;
+    let highSum = 0;
+    let totalSum = 0;
+    let rise = 0;
+    let hopLevelSum = 0;
+
+    for (let hop = 0; hop < hopsPerFrame; hop++) {
+      let hopLow = 0;
+      const offset = frame * frameSize + hop * HOP_SIZE;
+      const end = Math.min(length, offset + HOP_SIZE);
+
+      for (let i = offset; i < end; i++) {
+        let sample = 0;
+        for (const channel of channels) {
+          sample += channel[i];
+        }
+        sample *= channelScale;
+
+        low += lowAlpha * (sample - low);
+        lowMid += midAlpha * (sample - lowMid);
+        const mid = lowMid - low;
+        const high = sample - lowMid;
+
+        lowSum += low * low;
+        midSum += mid * mid;
+        highSum += high * high;
+        totalSum += sample * sample;
+        hopLow += low * low;
+      }
+
+      hopLow = Math.sqrt(hopLow / Math.max(1, end - offset));
+      rise += Math.max(0, hopLow - previousHopLow);
+      hopLevelSum += hopLow;
+      previousHopLow = hopLow;
+    }
+
+    const count = hopsPerFrame * HOP_SIZE;
+    const eps = 1e-10;
+    levels[frame] = totalSum > 0 ? Math.max(SILENCE_DB, 10 * Math.log10(totalSum / count)) : SILENCE_DB;
+    raw.push([
+      Math.log(lowSum / count + eps),
+      Math.log(midSum / count + eps),
+      Math.log(highSum / count + eps),
+      hopLevelSum > 0 ? rise / hopLevelSum : 0,
+    ]);
+  }
+
+  return { vectors: standardize(smooth(raw)), levels };
+}
+
+/**
+ * Moving average of each feature dimension.
+ */
+function smooth(raw: number[][]): number[][] {
+  return raw.map((_, frame) => {
+    const start = Math.max(0, frame - FEATURE_SMOOTHING_FRAMES);
+    const end = Math.min(raw.length, frame + FEATURE_SMOOTHING_FRAMES + 1);
+    const result = new Array<number>(raw[frame].length).fill(0);
+    for (let i = start; i < end; i++) {
+      for (let d = 0; d < result.length; d++) {
+        result[d] += raw[i][d] / (end - start);
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Z-score each feature dimension across the whole track.
+ */
+function standardize(raw: number[][]): Float32Array[] {
+  const dims = raw.length > 0 ? raw[0].length : 0;
+  const means = new Array<number>(dims).fill(0);
+  const deviations = new Array<number>(dims).fill(0);
+
+  for (const vector of raw) {
+    vector.forEach((value, d) => { means[d] += value / raw.length; });
+  }
+  for (const vector of raw) {
+    vector.forEach((value, d) => { deviations[d] += (value - means[d]) ** 2 / raw.length; });
+  }
+
+  return raw.map(vector => Float32Array.from(vector, (value, d) => {
+    const deviation = Math.sqrt(deviations[d]);
+    return deviation > 1e-6 ? (value - means[d]) / deviation : 0;
+  }));
+}
+
+function similarity(a: Float32Array, b: Float32Array): number {
+  let distance = 0;
+  for (let d = 0; d < a.length; d++) {
+    distance += (a[d] - b[d]) ** 2;
+  }
+  return Math.exp(-distance / Math.max(1, a.length));
+}
+
+/**
+ * Foote novelty: correlate a Gaussian-tapered checkerboard kernel along the
+ * diagonal of the self-similarity matrix. Peaks mark points where the music
+ * before is self-similar, the music after is self-similar, and the two differ.
+ * Similarities are computed on the fly so memory stays linear in track length.
+ */
+function computeNovelty(vectors: Float32Array[], radius: number): Float32Array {
+  const count = vectors.length;
+  const novelty = new Float32Array(count);
+  const sigma = radius / 2;
+
+  const taper = new Float32Array(2 * radius);
+  for (let k = 0; k < 2 * radius; k++) {
+    const offset = k - radius + 0.5;
+    taper[k] = Math.exp(-(offset * offset) / (2 * sigma * sigma));
+  }
+
+  for (let center = radius; center < count - radius; center++) {
+    let sum = 0;
+    for (let a = 0; a < 2 * radius; a++) {
+      const i = center - radius + a;
+      // The matrix is symmetric - visit each pair once and double it
+      for (let b = a + 1; b < 2 * radius; b++) {
+        const j = center - radius + b;
+        const sameSide = (a < radius) === (b < radius);
+        sum += (sameSide ? 2 : -2) * taper[a] * taper[b] * similarity(vectors[i], vectors[j]);
+      }
+    }
+    novelty[center] = Math.max(0, sum);
+  }
+
+  return novelty;
+}
+
+/**
+ * Pick novelty peaks as section boundaries (frame indices), keeping them at
+ * least minFrames apart and away from the track edges.
+ */
+function pickBoundaries(novelty: Float32Array, minFrames: number): number[] {
+  let mean = 0;
+  for (const value of novelty) mean += value / Math.max(1, novelty.length);
+  let variance = 0;
+  for (const value of novelty) variance += (value - mean) ** 2 / Math.max(1, novelty.length);
+  const threshold = mean + NOVELTY_THRESHOLD * Math.sqrt(variance);
+
+  const candidates: number[] = [];
+  for (let i = minFrames; i < novelty.length - minFrames; i++) {
+    if (novelty[i] <= threshold) continue;
+
+    let isPeak = true;
+    for (let j = Math.max(0, i - minFrames); j <= Math.min(novelty.length - 1, i + minFrames); j++) {
+      if (novelty[j] > novelty[i] || (novelty[j] === novelty[i] && j < i)) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (isPeak) {
+      candidates.push(i);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Move a boundary onto the nearest downbeat if one is close enough.
+ */
+function snapToDownbeat(time: number, downbeats: number[]): number {
+  if (downbeats.length === 0) {
+    return time;
+  }
+
+  const index = Math.min(findEventIndex(downbeats.map(t => ({ time: t })), time), downbeats.length - 1);
+  let nearest = downbeats[index];
+  if (index > 0 && Math.abs(downbeats[index - 1] - time) < Math.abs(nearest - time)) {
+    nearest = downbeats[index - 1];
+  }
+  return Math.abs(nearest - time) <= DOWNBEAT_SNAP_SECONDS ? nearest : time;
+}
+
+/**
+ * Label sections from their loudness relative to the rest of the track:
+ * sections rising into something louder are builds, loud sections are drops,
+ * quiet edges are intro/outro and the remaining quiet ones breakdowns.
+ */
+function labelSections(sections: SongSection[], levels: Float32Array): void {
+  const frameAt = (time: number) => Math.min(levels.length - 1, Math.max(0, Math.floor(time / FRAME_SECONDS)));
+
+  const stats = sections.map(section => {
+    const startFrame = frameAt(section.time);
+    const endFrame = Math.max(startFrame + 1, frameAt(section.end));
+    const frames = levels.subarray(startFrame, endFrame);
+    const quarter = Math.max(1, Math.floor(frames.length / 4));
+    return {
+      mean: meanOf(frames),
+      start: meanOf(frames.subarray(0, quarter)),
+      end: meanOf(frames.subarray(frames.length - quarter)),
+    };
+  });
+
+  const minLevel = Math.min(...stats.map(s => s.mean));
+  const maxLevel = Math.max(...stats.map(s => s.mean));
+  const range = maxLevel - minLevel;
+  const normalize = (db: number) => (range < MIN_LEVEL_RANGE_DB ? 1 : (db - minLevel) / range);
+
+  sections.forEach((section, i) => {
+    section.energy = Math.min(1, Math.max(0, normalize(stats[i].mean)));
+  });
+
+  sections.forEach((section, i) => {
+    const rise = normalize(stats[i].end) - normalize(stats[i].start);
+    const next = sections[i + 1];
+    const leadsIntoLouder = next !== undefined && next.energy > section.energy;
+
+    if (rise >= BUILD_RISE && leadsIntoLouder) {
+      section.label = 'build';
+    } else if (section.energy >= DROP_LEVEL) {
+      section.label = 'drop';
+    } else if (i === 0 && sections.length > 1) {
+      section.label = 'intro';
+    } else if (i === sections.length - 1 && sections.length > 1) {
+      section.label = 'outro';
+    } else {
+      section.label = 'breakdown';
+    }
+  });
+}
+
+/**
+ * Merge neighbouring sections that ended up with the same label.
+ */
+function mergeSections(sections: SongSection[]): SongSection[] {
+  const merged: SongSection[] = [];
+  for (const section of sections) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.label === section.label) {
+      const previousLength = previous.end - previous.time;
+      const length = section.end - section.time;
+      previous.energy = (previous.energy * previousLength + section.energy * length) / (previousLength + length);
+      previous.end = section.end;
+    } else {
+      merged.push({ ...section });
+    }
+  }
+  return merged;
+}
+
+function meanOf(values: Float32Array): number {
+  if (values.length === 0) return SILENCE_DB;
+  let sum = 0;
+  for (const value of values) sum += value;
+  return sum / values.length;
+}
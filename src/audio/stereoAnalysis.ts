@@ -0,0 +1,105 @@
+/**
+ * Stereo field analysis module.
+ * Compares the left and right channel waveforms each frame to find where the
+ * sound is sitting (balance), how it is moving (panning movement) and how
+ * wide the mix is. The flight path uses these to pick turn directions and to
+ * drift across the street with the music.
+ *
+ * Reads the left/right waveforms from the active FrequencySource, so it works
+ * live (ChannelSplitterNode analysers) and headless alike.
+ */
+
+import { getFrequencySource } from './frequencySource';
+
+export interface StereoField {
+  balance: number; // Where the sound sits: -1 = hard left, 0 = center, 1 = hard right
+  movement: number; // How fast the balance is moving, per second (+ = moving right)
+  width: number; // 0 = mono, 0.5 = uncorrelated, 1 = fully out of phase
+}
+
+const BALANCE_TIME_CONSTANT_SECONDS = 0.4; // Smoothing so single hits don't yank the balance
+const MOVEMENT_TIME_CONSTANT_SECONDS = 0.3;
+const MAX_FRAME_SECONDS = 0.25; // Cap on a single frame's step (tab was hidden, etc.)
+const SILENCE_RMS = 0.005; // Quieter frames let the field relax to center
+
+// State
+let field: StereoField = { balance: 0, movement: 0, width: 0 };
+let lastFrameTime = -1;
+
+/**
+ * RMS levels and correlation of the two channels' first differences.
+ * Differencing tilts the spectrum toward mids and highs, where panned
+ * instruments live - bass is almost always centered and would otherwise
+ * dominate the level.
+ */
+function measureChannels(left: Float32Array, right: Float32Array): { left: number; right: number; correlation: number } {
+  const length = Math.min(left.length, right.length);
+  let leftPower = 0;
+  let rightPower = 0;
+  let crossPower = 0;
+
+  for (let i = 1; i < length; i++) {
+    const l = left[i] - left[i - 1];
+    const r = right[i] - right[i - 1];
+    leftPower += l * l;
+    rightPower += r * r;
+    crossPower += l * r;
+  }
+
+  const count = Math.max(1, length - 1);
+  const normalizer = Math.sqrt(leftPower * rightPower);
+  return {
+    left: Math.sqrt(leftPower / count),
+    right: Math.sqrt(rightPower / count),
+    correlation: normalizer > 0 ? crossPower / normalizer : 1,
+  };
+}
+
+/**
+ * Update the stereo field. Call this every frame.
+ */
+export function updateStereoAnalysis(): StereoField {
+  const source = getFrequencySource();
+  const time = source.getCurrentTime();
+  const frameSeconds = lastFrameTime >= 0 ? Math.min(Math.max(0, time - lastFrameTime), MAX_FRAME_SECONDS) : 0;
+  lastFrameTime = time;
+
+  if (frameSeconds === 0) {
+    return field;
+  }
+
+  const levels = measureChannels(source.getChannelTimeDomainData('left'), source.getChannelTimeDomainData('right'));
+  const total = levels.left + levels.right;
+
+  // Silence has no position - relax toward a centered, mono field
+  const silent = total < SILENCE_RMS * 2;
+  const targetBalance = silent ? 0 : (levels.right - levels.left) / total;
+  const targetWidth = silent ? 0 : (1 - Math.max(-1, Math.min(1, levels.correlation))) / 2;
+
+  const balanceBlend = 1 - Math.exp(-frameSeconds / BALANCE_TIME_CONSTANT_SECONDS);
+  const balance = field.balance + (targetBalance - field.balance) * balanceBlend;
+  const width = field.width + (targetWidth - field.width) * balanceBlend;
+
+  const movementBlend = 1 - Math.exp(-frameSeconds / MOVEMENT_TIME_CONSTANT_SECONDS);
+  const targetMovement = (balance - field.balance) / frameSeconds;
+  const movement = field.movement + (targetMovement - field.movement) * movementBlend;
+
+  field = { balance, movement, width };
+  return field;
+}
+
+/**
+ * Get the stereo field from the most recent updateStereoAnalysis() call.
+ */
+export function getStereoField(): StereoField {
+  return field;
+}
+
+/**
+ * Reset to a centered field.
+ * Call this when the audio source changes so the old balance doesn't linger.
+ */
+export function resetStereoAnalysis(): void {
+  field = { balance: 0, movement: 0, width: 0 };
+  lastFrameTime = -1;
+}
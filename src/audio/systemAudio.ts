@@ -9,6 +9,7 @@ import { initAnalyser, getAnalyserNode } from './audioAnalyser';
 let mediaStream: MediaStream | null = null;
 let mediaSource: MediaStreamAudioSourceNode | null = null;
 let isCapturing = false;
+let captureEndedCallbacks: (() => void)[] = [];
 
 /**
  * Request system audio capture via screen share.
@@ -71,6 +72,9 @@ export async function startSystemAudioCapture(): Promise<boolean> {
       track.onended = () => {
         console.log('System audio capture ended');
         stopSystemAudioCapture();
+        for (const callback of captureEndedCallbacks) {
+          callback();
+        }
       };
     });
 
@@ -105,6 +109,21 @@ export function isSystemAudioCapturing(): boolean {
   return isCapturing;
 }
 
+/**
+ * Subscribe to capture ending on its own (the user stopped sharing),
+ * as opposed to stopSystemAudioCapture() being called.
+ */
+export function onSystemAudioEnded(callback: () => void): void {
+  captureEndedCallbacks.push(callback);
+}
+
+/**
+ * Unsubscribe from capture ended events.
+ */
+export function offSystemAudioEnded(callback: () => void): void {
+  captureEndedCallbacks = captureEndedCallbacks.filter(cb => cb !== callback);
+}
+
 /**
  * Check if the browser supports system audio capture.
  */
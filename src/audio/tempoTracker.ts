@@ -0,0 +1,274 @@
+/**
+ * Tempo tracking module built on top of beat detection.
+ * Estimates BPM and beat phase from detected beats, keeps a phase-locked
+ * prediction of the next beat, and fires "upcoming beat" events a configurable
+ * lead time before the hit so animations can start ahead of the music.
+ * When the playing track has an offline beat grid, predictions come straight
+ * from the grid instead.
+ *
+ * All times are in seconds on the audio clock (AudioContext.currentTime).
+ */
+
+import { onBeat, offBeat } from './beatDetector';
+import { getAudioContext, getBeatGrid, getIsPlaying, getCurrentTime } from './audioPlayer';
+import { findEventIndex } from './beatGrid';
+
+// Tempo estimation configuration
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const ONSET_HISTORY_SECONDS = 8; // Window of detected beats used to estimate the period
+const MIN_ONSETS_FOR_TEMPO = 4; // Beats needed before a tempo estimate is trusted
+const PERIOD_SMOOTHING = 0.2; // How quickly the period follows new estimates (0-1)
+
+// Phase locking configuration
+const PHASE_GAIN = 0.3; // Fraction of the phase error corrected per matched beat
+const PERIOD_GAIN = 0.05; // Fraction of the phase error fed back into the period
+const MATCH_TOLERANCE = 0.25; // Beats within this fraction of a period count as on-grid
+const CONFIDENCE_SMOOTHING = 0.15; // How quickly confidence follows matched/unmatched beats
+const MIN_LOCK_CONFIDENCE = 0.5; // Confidence needed before upcoming-beat events fire
+const MAX_MISSED_PERIODS = 8; // Lock is dropped after this many beats without a detection
+
+interface UpcomingSubscription {
+  leadSeconds: number;
+  callback: (secondsUntilBeat: number) => void;
+  lastFiredBeatTime: number;
+}
+
+// State
+let onsetTimes: number[] = [];
+let period = 0; // Seconds per beat (0 = unknown)
+let nextBeatTime = 0; // Predicted time of the next beat
+let lastDetectedBeatTime = -Infinity;
+let confidence = 0;
+let upcomingSubscriptions: UpcomingSubscription[] = [];
+let initialized = false;
+
+function getNow(): number {
+  const audioContext = getAudioContext();
+  return audioContext ? audioContext.currentTime : performance.now() / 1000;
+}
+
+/**
+ * Fold an interval into the allowed tempo range by halving/doubling.
+ */
+function foldInterval(interval: number): number {
+  const minPeriod = 60 / MAX_BPM;
+  const maxPeriod = 60 / MIN_BPM;
+  while (interval > maxPeriod) interval /= 2;
+  while (interval < minPeriod) interval *= 2;
+  return interval;
+}
+
+/**
+ * Estimate the beat period from the median of recent inter-onset intervals.
+ */
+function estimatePeriod(): number {
+  if (onsetTimes.length < MIN_ONSETS_FOR_TEMPO) {
+    return 0;
+  }
+
+  const intervals: number[] = [];
+  for (let i = 1; i < onsetTimes.length; i++) {
+    intervals.push(foldInterval(onsetTimes[i] - onsetTimes[i - 1]));
+  }
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)];
+}
+
+/**
+ * Handle a detected beat: update the tempo estimate and pull the predicted
+ * phase toward the detection.
+ * Uses the beat's own audio-clock time, not the time the callback ran.
+ */
+function handleBeat(_intensity: number, now: number): void {
+  lastDetectedBeatTime = now;
+
+  onsetTimes.push(now);
+  while (onsetTimes.length > 0 && onsetTimes[0] < now - ONSET_HISTORY_SECONDS) {
+    onsetTimes.shift();
+  }
+
+  const estimate = estimatePeriod();
+  if (estimate <= 0) {
+    return;
+  }
+
+  if (period === 0) {
+    // First lock: start the prediction from this beat
+    period = estimate;
+    nextBeatTime = now + period;
+    return;
+  }
+
+  period += (estimate - period) * PERIOD_SMOOTHING;
+
+  // Phase error relative to the nearest predicted beat (negative = detection was early)
+  const beatsAway = Math.round((now - nextBeatTime) / period);
+  const nearestPredicted = nextBeatTime + beatsAway * period;
+  const error = now - nearestPredicted;
+
+  if (Math.abs(error) < period * MATCH_TOLERANCE) {
+    nextBeatTime += error * PHASE_GAIN;
+    period += error * PERIOD_GAIN;
+    confidence += (1 - confidence) * CONFIDENCE_SMOOTHING;
+  } else {
+    confidence += (0 - confidence) * CONFIDENCE_SMOOTHING;
+  }
+
+  // Keep the prediction strictly in the future
+  while (nextBeatTime <= now) {
+    nextBeatTime += period;
+  }
+}
+
+/**
+ * Initialize tempo tracking (subscribes to beat detection).
+ */
+export function initTempoTracking(): void {
+  if (initialized) return;
+  onBeat(handleBeat);
+  initialized = true;
+}
+
+/**
+ * Stop tempo tracking and unsubscribe from beat detection.
+ */
+export function disposeTempoTracking(): void {
+  offBeat(handleBeat);
+  initialized = false;
+  resetTempoTracking();
+}
+
+/**
+ * Update tempo tracking. Call this every frame after updateBeatDetection().
+ * Advances the prediction and fires upcoming-beat events.
+ */
+export function updateTempoTracking(): void {
+  const now = getNow();
+
+  if (!getBeatGrid() || !getIsPlaying()) {
+    if (period > 0) {
+      // Drop the lock after a long stretch without detections
+      if (now - lastDetectedBeatTime > period * MAX_MISSED_PERIODS) {
+        resetTempoTracking();
+        return;
+      }
+      while (nextBeatTime <= now) {
+        nextBeatTime += period;
+      }
+    }
+
+    if (confidence < MIN_LOCK_CONFIDENCE) {
+      return;
+    }
+  }
+
+  const beatTime = getNextBeatTime();
+  if (beatTime <= 0) {
+    return;
+  }
+
+  const secondsUntilBeat = beatTime - now;
+  for (const subscription of upcomingSubscriptions) {
+    // Phase corrections nudge the prediction, so match beats within half a period
+    const alreadyFired = Math.abs(beatTime - subscription.lastFiredBeatTime) < getBeatPeriod() / 2;
+    if (secondsUntilBeat <= subscription.leadSeconds && !alreadyFired) {
+      subscription.lastFiredBeatTime = beatTime;
+      subscription.callback(Math.max(0, secondsUntilBeat));
+    }
+  }
+}
+
+/**
+ * Get the predicted time of the next beat on the audio clock (0 if unknown).
+ */
+export function getNextBeatTime(): number {
+  const grid = getBeatGrid();
+  if (grid && getIsPlaying()) {
+    const playbackTime = getCurrentTime();
+    let index = findEventIndex(grid.beats, playbackTime);
+    if (index < grid.beats.length && grid.beats[index].time <= playbackTime) {
+      index++;
+    }
+    if (index >= grid.beats.length) {
+      return 0;
+    }
+    return getNow() + (grid.beats[index].time - playbackTime);
+  }
+
+  return period > 0 ? nextBeatTime : 0;
+}
+
+/**
+ * Get the position within the current beat (0 = on the beat, approaching 1 just before the next).
+ */
+export function getBeatPhase(): number {
+  const beatTime = getNextBeatTime();
+  const beatPeriod = getBeatPeriod();
+  if (beatTime <= 0 || beatPeriod <= 0) {
+    return 0;
+  }
+
+  const phase = 1 - (beatTime - getNow()) / beatPeriod;
+  return Math.min(1, Math.max(0, phase));
+}
+
+/**
+ * Get the estimated tempo in beats per minute (0 if unknown).
+ */
+export function getBPM(): number {
+  const beatPeriod = getBeatPeriod();
+  return beatPeriod > 0 ? 60 / beatPeriod : 0;
+}
+
+/**
+ * Get how well detected beats agree with the prediction (0-1).
+ * Always 1 while playing from a beat grid.
+ */
+export function getTempoConfidence(): number {
+  return getBeatGrid() && getIsPlaying() ? 1 : confidence;
+}
+
+function getBeatPeriod(): number {
+  const grid = getBeatGrid();
+  if (grid && getIsPlaying() && grid.bpm > 0) {
+    return 60 / grid.bpm;
+  }
+  return period;
+}
+
+/**
+ * Subscribe to upcoming beat events.
+ * The callback fires once per predicted beat, leadMs before it lands, and
+ * receives the seconds remaining until the beat.
+ * Only fires while the tracker is locked onto a tempo.
+ */
+export function onBeatUpcoming(leadMs: number, callback: (secondsUntilBeat: number) => void): void {
+  upcomingSubscriptions.push({
+    leadSeconds: Math.max(0, leadMs) / 1000,
+    callback,
+    lastFiredBeatTime: -Infinity,
+  });
+}
+
+/**
+ * Unsubscribe from upcoming beat events.
+ */
+export function offBeatUpcoming(callback: (secondsUntilBeat: number) => void): void {
+  upcomingSubscriptions = upcomingSubscriptions.filter(sub => sub.callback !== callback);
+}
+
+/**
+ * Reset tempo tracking state.
+ * Call this when starting a new track or resetting.
+ */
+export function resetTempoTracking(): void {
+  onsetTimes = [];
+  period = 0;
+  nextBeatTime = 0;
+  lastDetectedBeatTime = -Infinity;
+  confidence = 0;
+  for (const subscription of upcomingSubscriptions) {
+    subscription.lastFiredBeatTime = -Infinity;
+  }
+}
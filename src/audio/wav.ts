@@ -0,0 +1,103 @@
+/**
+ * WAV file decoding for offline analysis (headless runs where there is no
+ * AudioContext.decodeAudioData). Supports PCM integer and IEEE float data.
+ */
+
+export interface DecodedWav {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Decode a RIFF/WAVE file into per-channel float samples (-1 to 1).
+ */
+export function decodeWav(data: ArrayBuffer): DecodedWav {
+  const view = new DataView(data);
+  if (readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunks (each is word-aligned)
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === 'fmt ') {
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === FORMAT_EXTENSIBLE && size >= 26) {
+        // The real format is the first two bytes of the sub-format GUID
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (tag === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, view.byteLength - body);
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (dataOffset < 0 || channelCount === 0 || sampleRate === 0) {
+    throw new Error('WAV file is missing its fmt or data chunk');
+  }
+  if (format !== FORMAT_PCM && format !== FORMAT_FLOAT) {
+    throw new Error(`Unsupported WAV format ${format} (only PCM and float are supported)`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channelCount));
+  const readSample = getSampleReader(format, bitsPerSample);
+
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < channelCount; c++) {
+    channels.push(new Float32Array(frameCount));
+  }
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let c = 0; c < channelCount; c++) {
+      channels[c][frame] = readSample(view, dataOffset + (frame * channelCount + c) * bytesPerSample);
+    }
+  }
+
+  return { channels, sampleRate };
+}
+
+function readTag(view: DataView, offset: number): string {
+  if (offset + 4 > view.byteLength) return '';
+  return String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+}
+
+function getSampleReader(format: number, bits: number): (view: DataView, offset: number) => number {
+  if (format === FORMAT_FLOAT) {
+    if (bits === 32) return (view, offset) => view.getFloat32(offset, true);
+    if (bits === 64) return (view, offset) => view.getFloat64(offset, true);
+  } else {
+    if (bits === 8) return (view, offset) => (view.getUint8(offset) - 128) / 128;
+    if (bits === 16) return (view, offset) => view.getInt16(offset, true) / 32768;
+    if (bits === 24) {
+      return (view, offset) => {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        return value / 8388608;
+      };
+    }
+    if (bits === 32) return (view, offset) => view.getInt32(offset, true) / 2147483648;
+  }
+  throw new Error(`Unsupported WAV sample size: ${bits}-bit ${format === FORMAT_FLOAT ? 'float' : 'PCM'}`);
+}
@@ -0,0 +1,70 @@
+/**
+ * AudioWorklet processor that runs onset detection on the audio thread.
+ * Sees every sample of the analysed signal (mixed down to mono) in
+ * render-quantum blocks and posts detected onsets to the main thread, stamped
+ * with the audio-clock time they happened at. Outputs silence.
+ *
+ * Loaded with audioWorklet.addModule() (see onsetWorklet.ts), so it must not
+ * import anything that touches the DOM.
+ */
+
+import { createOnsetDetector, ONSET_PROCESSOR_NAME } from '../onsetDetector';
+import type { OnsetEvent, OnsetWorkletCommand, OnsetWorkletMessage } from '../onsetDetector';
+
+// AudioWorkletGlobalScope - not part of the DOM typings
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessor): void;
+
+class OnsetProcessor extends AudioWorkletProcessor {
+  private detector = createOnsetDetector(sampleRate);
+  private mono = new Float32Array(128);
+  private pending: OnsetEvent[] = [];
+
+  constructor() {
+    super();
+    this.port.onmessage = (message: MessageEvent<OnsetWorkletCommand>) => {
+      const command = message.data;
+      if (command.type === 'sensitivity') {
+        this.detector.setSensitivity(command.value);
+      } else if (command.type === 'reset') {
+        this.detector.reset();
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      // Nothing connected yet - keep the processor alive
+      return true;
+    }
+
+    const length = channels[0].length;
+    if (this.mono.length !== length) {
+      this.mono = new Float32Array(length);
+    }
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (const channel of channels) {
+        sample += channel[i];
+      }
+      this.mono[i] = sample / channels.length;
+    }
+
+    this.detector.process(this.mono, currentTime, (event) => this.pending.push(event));
+
+    // One message per block at most, and only when something happened
+    if (this.pending.length > 0) {
+      const message: OnsetWorkletMessage = { type: 'onsets', events: this.pending };
+      this.port.postMessage(message);
+      this.pending = [];
+    }
+    return true;
+  }
+}
+
+registerProcessor(ONSET_PROCESSOR_NAME, OnsetProcessor);
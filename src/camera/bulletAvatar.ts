@@ -19,12 +19,14 @@ export class BulletAvatar {
   private bulletMesh: THREE.Mesh;
   private pointLight: THREE.PointLight;
   private flightPath: FlightPath;
-  private currentZ: number;
+  private currentDistance: number;
+  private bankAngle: number;
   private visible: boolean;
 
   constructor(scene: THREE.Scene, flightPath: FlightPath) {
     this.flightPath = flightPath;
-    this.currentZ = 0;
+    this.currentDistance = 0;
+    this.bankAngle = 0;
     this.visible = false;
 
     // Create group to hold bullet and light
@@ -74,24 +76,29 @@ export class BulletAvatar {
 
   /**
    * Update the bullet position to follow the flight path
-   * @param z The current Z position along the path
+   * @param distance The current distance along the path
+   * @param bankAngle Roll in radians (+ = right side down), shared with the camera
    */
-  public update(z: number): void {
-    this.currentZ = z;
+  public update(distance: number, bankAngle: number = 0): void {
+    this.currentDistance = distance;
+    this.bankAngle = bankAngle;
     this.updatePosition();
   }
 
   /**
-   * Update position and orientation based on current Z
+   * Update position and orientation based on current distance
    */
   private updatePosition(): void {
     // Get position and tangent from flight path
-    const position = this.flightPath.getPositionAtZ(this.currentZ);
-    const tangent = this.flightPath.getTangentAtZ(this.currentZ);
+    const position = this.flightPath.getPositionAtDistance(this.currentDistance);
+    const tangent = this.flightPath.getTangentAtDistance(this.currentDistance);
 
     // Set position
     this.group.position.copy(position);
 
+    // Bank with the camera: roll the up vector around the direction of travel
+    this.group.up.set(0, 1, 0).applyAxisAngle(tangent, this.bankAngle);
+
     // Orient bullet to face direction of travel
     // Create a look-at target
     const lookTarget = new THREE.Vector3()
@@ -1,16 +1,30 @@
 import * as THREE from 'three';
 import { FlightPath } from './flightPath';
+import type { TurnDirection, AltitudeMode } from './flightPath';
+import { ShotDirector } from './shotDirector';
+import { FIRST_PERSON_SHOT } from './shots';
+import type { Shot } from './shots';
 
 // Default base speed (units per second) - arcade fast!
 const DEFAULT_BASE_SPEED = 140;
 
-// Perspective modes
+// Perspective modes (every shot that shows the bullet counts as third-person)
 export type PerspectiveMode = 'first-person' | 'third-person';
 
-// Third-person camera offset
-const THIRD_PERSON_OFFSET = new THREE.Vector3(0, 15, -40);
-const TRANSITION_DURATION = 0.8;
-const THIRD_PERSON_DURATION = 6;
+// Banking into turns
+const MAX_BANK_ANGLE = THREE.MathUtils.degToRad(50); // Roll through the tightest corners
+const FULL_BANK_RADIUS = 90; // Corners this tight (or tighter) get the full roll
+const BANK_LEAD_SECONDS = 0.35; // Start rolling this long before the corner
+const BANK_RELEASE_SECONDS = 0.6; // Ease back to level over this long after it
+const CORNER_SLOWDOWN = 0.2; // Fraction of speed shed at full bank
+
+// Beat windup: ease off ahead of a predicted beat so the beat boost lands as a surge
+export const BEAT_WINDUP_LEAD_MS = 250;
+const BEAT_WINDUP_SPEED = 0.75; // Fraction of base speed reached as the beat lands
+
+// Handing back from manual flying
+const RESUME_BLEND_SECONDS = 1.5;
+const RESUME_LOOK_DISTANCE = 100;
 
 /**
  * CameraController manages camera movement along a flight path.
@@ -18,27 +32,27 @@ const THIRD_PERSON_DURATION = 6;
 export class CameraController {
   private camera: THREE.PerspectiveCamera;
   private flightPath: FlightPath;
-  private currentZ: number;
   private currentDistance: number;
   private baseSpeed: number;
   private currentSpeed: number;
+  private bankAngle: number = 0; // Radians, + = rolled right (right side down)
+  private windupDuration: number = 0;
+  private windupTimeLeft: number = 0; // Seconds until the beat being wound up for
 
   // Perspective state
+  private shotDirector: ShotDirector;
   private perspectiveMode: PerspectiveMode = 'first-person';
-  private perspectiveTransitionProgress: number = 1;
-  private thirdPersonTimer: number = 0;
-  private isTransitioning: boolean = false;
-  private targetPerspective: PerspectiveMode = 'first-person';
   private perspectiveChangeCallbacks: ((mode: PerspectiveMode) => void)[] = [];
 
   constructor(camera: THREE.PerspectiveCamera) {
     this.camera = camera;
     this.flightPath = new FlightPath();
-    this.currentZ = 0;
     this.currentDistance = 0;
     this.baseSpeed = DEFAULT_BASE_SPEED;
     this.currentSpeed = this.baseSpeed;
-    this.updateCameraPosition();
+    this.shotDirector = new ShotDirector();
+    this.shotDirector.onShotChange(() => this.syncPerspectiveMode());
+    this.updateCameraPosition(0);
   }
 
   public setSpeed(speed: number): void {
@@ -46,6 +60,11 @@ export class CameraController {
     this.currentSpeed = speed;
   }
 
+  // Unlike setSpeed(), keeps the current speed so easeToBaseSpeed() glides to the new one
+  public setBaseSpeed(speed: number): void {
+    this.baseSpeed = speed;
+  }
+
   public getSpeed(): number {
     return this.currentSpeed;
   }
@@ -54,74 +73,133 @@ export class CameraController {
     return this.baseSpeed;
   }
 
+  // The beat landed - ends any windup
   public boostSpeed(multiplier: number): void {
+    this.windupTimeLeft = 0;
     this.currentSpeed = this.baseSpeed * multiplier;
   }
 
+  // Ease toward the windup speed over the time left until a predicted beat
+  public windUpForBeat(secondsUntilBeat: number): void {
+    if (secondsUntilBeat <= 0) return;
+    this.windupDuration = secondsUntilBeat;
+    this.windupTimeLeft = secondsUntilBeat;
+  }
+
+  // Eases toward base speed, or below it while winding up for a beat
   public easeToBaseSpeed(factor: number): void {
-    this.currentSpeed = THREE.MathUtils.lerp(this.currentSpeed, this.baseSpeed, factor);
+    this.currentSpeed = THREE.MathUtils.lerp(this.currentSpeed, this.getCruiseSpeed(), factor);
+  }
+
+  private getCruiseSpeed(): number {
+    if (this.windupTimeLeft <= 0) {
+      return this.baseSpeed;
+    }
+    const progress = 1 - this.windupTimeLeft / this.windupDuration;
+    return this.baseSpeed * THREE.MathUtils.lerp(1, BEAT_WINDUP_SPEED, progress);
   }
 
   public update(deltaTime: number): void {
-    const distanceThisFrame = this.currentSpeed * deltaTime;
+    // A predicted beat that never lands just lets the windup run out
+    this.windupTimeLeft = Math.max(0, this.windupTimeLeft - deltaTime);
+
+    // Ease off through corners, in step with the bank
+    const cornerFactor = 1 - CORNER_SLOWDOWN * Math.abs(this.bankAngle) / MAX_BANK_ANGLE;
+    const distanceThisFrame = this.currentSpeed * cornerFactor * deltaTime;
     this.currentDistance += distanceThisFrame;
-    this.currentZ += distanceThisFrame;
 
     // Extend path
     this.flightPath.extendIfNeededByDistance(this.currentDistance);
 
-    // Perspective transitions
-    if (this.isTransitioning) {
-      this.perspectiveTransitionProgress += deltaTime / TRANSITION_DURATION;
-      if (this.perspectiveTransitionProgress >= 1) {
-        this.perspectiveTransitionProgress = 1;
-        this.isTransitioning = false;
-        this.perspectiveMode = this.targetPerspective;
-      }
-    }
+    this.bankAngle = this.computeBankAngle();
+    this.updateCameraPosition(deltaTime);
+  }
 
-    if (this.perspectiveMode === 'third-person' && !this.isTransitioning) {
-      this.thirdPersonTimer += deltaTime;
-      if (this.thirdPersonTimer >= THIRD_PERSON_DURATION) {
-        this.switchToFirstPerson();
+  // Roll into nearby corners: ramps in ahead of the arc, holds through it, eases
+  // out after it, and scales with the arc's curvature
+  private computeBankAngle(): number {
+    const speed = Math.max(this.currentSpeed, 1);
+    const leadDistance = BANK_LEAD_SECONDS * speed;
+    const releaseDistance = BANK_RELEASE_SECONDS * speed;
+    const corners = this.flightPath.getCornersBetween(
+      this.currentDistance - releaseDistance,
+      this.currentDistance + leadDistance
+    );
+
+    let bank = 0;
+    for (const corner of corners) {
+      let envelope = 1;
+      if (this.currentDistance < corner.startDistance) {
+        envelope = this.smoothstep(1 - (corner.startDistance - this.currentDistance) / leadDistance);
+      } else if (this.currentDistance > corner.endDistance) {
+        envelope = 1 - this.smoothstep((this.currentDistance - corner.endDistance) / releaseDistance);
       }
+      const sharpness = Math.min(1, Math.abs(corner.curvature) * FULL_BANK_RADIUS);
+      // Left turns (+curvature) roll left (-bank)
+      bank -= Math.sign(corner.curvature) * sharpness * envelope * MAX_BANK_ANGLE;
     }
-
-    this.updateCameraPosition();
+    return THREE.MathUtils.clamp(bank, -MAX_BANK_ANGLE, MAX_BANK_ANGLE);
   }
 
-  private updateCameraPosition(): void {
+  private updateCameraPosition(deltaTime: number): void {
     const bulletPosition = this.flightPath.getPositionAtDistance(this.currentDistance);
     const tangent = this.flightPath.getTangentAtDistance(this.currentDistance);
 
-    const firstPersonPos = bulletPosition.clone();
-
-    const right = new THREE.Vector3().crossVectors(tangent, new THREE.Vector3(0, 1, 0)).normalize();
-    const up = new THREE.Vector3().crossVectors(right, tangent).normalize();
-
-    const thirdPersonPos = bulletPosition.clone()
-      .add(tangent.clone().multiplyScalar(THIRD_PERSON_OFFSET.z))
-      .add(up.clone().multiplyScalar(THIRD_PERSON_OFFSET.y))
-      .add(right.clone().multiplyScalar(THIRD_PERSON_OFFSET.x));
+    // Banked frame: roll the level right/up vectors around the direction of travel
+    const levelRight = new THREE.Vector3().crossVectors(tangent, new THREE.Vector3(0, 1, 0)).normalize();
+    const up = new THREE.Vector3().crossVectors(levelRight, tangent).normalize();
+    const right = levelRight.clone().applyAxisAngle(tangent, this.bankAngle);
+    up.applyAxisAngle(tangent, this.bankAngle);
+
+    const pose = this.shotDirector.update(deltaTime, {
+      flightPath: this.flightPath,
+      distance: this.currentDistance,
+      speed: this.currentSpeed,
+      position: bulletPosition,
+      tangent,
+      right,
+      up,
+      levelRight,
+    });
+
+    this.camera.position.copy(pose.position);
+    this.camera.up.copy(pose.up);
+    this.camera.lookAt(pose.target);
+
+    // A blend away from a third-person shot only settles on first-person now
+    this.syncPerspectiveMode();
+  }
 
-    const t = this.smoothstep(this.perspectiveTransitionProgress);
-    let interpFactor = this.targetPerspective === 'third-person' ? t : 1 - t;
+  // Notify perspective callbacks when getPerspectiveMode() changes
+  private syncPerspectiveMode(): void {
+    const mode = this.getPerspectiveMode();
+    if (mode === this.perspectiveMode) return;
+    this.perspectiveMode = mode;
+    for (const callback of this.perspectiveChangeCallbacks) {
+      callback(mode);
+    }
+  }
 
-    this.camera.position.lerpVectors(firstPersonPos, thirdPersonPos, interpFactor);
+  private smoothstep(t: number): number {
+    return t * t * (3 - 2 * t);
+  }
 
-    const firstPersonLookTarget = bulletPosition.clone().add(tangent.clone().multiplyScalar(100));
-    const thirdPersonLookTarget = bulletPosition.clone();
-    const lookTarget = new THREE.Vector3().lerpVectors(firstPersonLookTarget, thirdPersonLookTarget, interpFactor);
+  // Climb, dive or skim starting just ahead (see FlightPath.setAltitudeMode())
+  public setAltitudeMode(mode: AltitudeMode): boolean {
+    return this.flightPath.setAltitudeMode(mode, this.currentDistance);
+  }
 
-    this.camera.lookAt(lookTarget);
+  public getBankAngle(): number {
+    return this.bankAngle;
   }
 
-  private smoothstep(t: number): number {
-    return t * t * (3 - 2 * t);
+  public getCurrentDistance(): number {
+    return this.currentDistance;
   }
 
-  public getCurrentZ(): number {
-    return this.currentZ;
+  // Turn at the next intersection ahead (see FlightPath.queueTurn())
+  public queueTurn(direction: TurnDirection): TurnDirection | null {
+    return this.flightPath.queueTurn(direction, this.currentDistance);
   }
 
   public getPosition(): THREE.Vector3 {
@@ -132,39 +210,53 @@ export class CameraController {
     return this.flightPath;
   }
 
+  // Pick the autopilot back up at the point of the path nearest the camera,
+  // blending in first-person from wherever the camera was left
+  public resumeFromCamera(): void {
+    const target = this.camera.getWorldDirection(new THREE.Vector3())
+      .multiplyScalar(RESUME_LOOK_DISTANCE)
+      .add(this.camera.position);
+    const pose = { position: this.camera.position.clone(), target, up: this.camera.up.clone() };
+
+    this.currentDistance = this.flightPath.getNearestDistance(this.camera.position);
+    this.flightPath.extendIfNeededByDistance(this.currentDistance);
+    this.switchToFirstPerson();
+    this.shotDirector.blendFrom(pose, RESUME_BLEND_SECONDS);
+  }
+
+  public getShotDirector(): ShotDirector {
+    return this.shotDirector;
+  }
+
+  // Let the director cut to a fresh cinematic shot (holds a shot that only just started)
   public switchToThirdPerson(): void {
-    if (this.perspectiveMode === 'third-person' && !this.isTransitioning) {
-      this.thirdPersonTimer = 0;
+    if (!this.shotDirector.shouldCut()) {
+      this.shotDirector.holdShot();
       return;
     }
-    this.targetPerspective = 'third-person';
-    this.isTransitioning = true;
-    this.perspectiveTransitionProgress = 0;
-    this.thirdPersonTimer = 0;
-    for (const callback of this.perspectiveChangeCallbacks) {
-      callback('third-person');
-    }
+    this.shotDirector.cutTo(this.shotDirector.chooseShot().name);
   }
 
   public switchToFirstPerson(): void {
-    if (this.perspectiveMode === 'first-person' && !this.isTransitioning) {
-      return;
-    }
-    this.targetPerspective = 'first-person';
-    this.isTransitioning = true;
-    this.perspectiveTransitionProgress = 0;
-    for (const callback of this.perspectiveChangeCallbacks) {
-      callback('first-person');
-    }
+    this.shotDirector.cutTo(FIRST_PERSON_SHOT);
+  }
+
+  public switchToShot(name: string): boolean {
+    return this.shotDirector.cutTo(name);
+  }
+
+  public getCurrentShot(): Shot {
+    return this.shotDirector.getCurrentShot();
   }
 
+  // Third-person from the cut to a shot showing the bullet until the blend away from it finishes
   public getPerspectiveMode(): PerspectiveMode {
-    return this.perspectiveMode;
+    return this.isThirdPerson() ? 'third-person' : 'first-person';
   }
 
   public isThirdPerson(): boolean {
-    return this.perspectiveMode === 'third-person' ||
-      (this.isTransitioning && this.targetPerspective === 'third-person');
+    const previous = this.shotDirector.getPreviousShot();
+    return this.shotDirector.getCurrentShot().showsBullet || (previous !== null && previous.showsBullet);
   }
 
   public onPerspectiveChange(callback: (mode: PerspectiveMode) => void): void {
@@ -15,12 +15,126 @@ const BLOCK_WITH_STREET = CITY_BLOCK_SIZE + STREET_WIDTH;
 // Scaled up for massive buildings
 const FLIGHT_HEIGHT = 60;
 
+// Altitude choreography
+const CANYON_HEIGHT = 25; // Dive deep into the street canyon
+const ROOFTOP_CLEARANCE = 15; // Skim this far above the tallest roof beside the street
+const SKYLINE_CLEARANCE = 80; // Climb this far above the tallest building nearby
+const MIN_SKYLINE_HEIGHT = 200;
+const ROOF_SEARCH_RADIUS = STREET_WIDTH / 2 + BUILDING_WIDTH; // Roofs of the first buildings on either side
+const ALTITUDE_LEAD_DISTANCE = 60; // Altitude moves start this far ahead of the camera
+const MIN_ALTITUDE_MOVE_DISTANCE = 200;
+const MAX_CLIMB_GRADIENT = 0.5; // Average rise per unit of distance over a move
+const ALTITUDE_CLEARANCE = 20; // Room kept around the flight line during a move
+
 // How far ahead to extend the path (in world units)
 const EXTEND_AHEAD_DISTANCE = 1000;
 
 // Minimum distance from end before extending path
 const EXTEND_THRESHOLD = 500;
 
+// The path behind the camera is dropped once it is this far back (well past
+// anything that looks behind: bank release, chase shots, pilot hand-back)
+const KEEP_BEHIND_DISTANCE = 2 * BLOCK_WITH_STREET;
+
+// Corners are rounded with arcs of this radius (half the street width, so the
+// sweep stays inside the intersection)
+const CORNER_RADIUS = STREET_WIDTH / 2;
+
+// Turns happen at the first intersection at least this far ahead of the camera
+// (more than CORNER_RADIUS, so the sweep starts ahead of the camera)
+const MIN_TURN_LEAD_DISTANCE = 100;
+
+// Turn safety: the cross street must be clear this far past the corner, with room
+// for the lateral drift and the third-person camera on either side
+const TURN_CHECK_DISTANCE = BLOCK_WITH_STREET;
+const TURN_CLEARANCE = 60;
+const MAX_TURN_DELAY_INTERSECTIONS = 2; // Blocked corners push the turn back this many intersections before it is skipped
+
+// Stereo steering: where the sound sits in the mix moves the flight sideways
+// and decides which way to turn
+const MAX_LATERAL_DRIFT = 45; // Half the street half-width - well clear of buildings
+const STEREO_DRIFT_GAIN = 2.5; // Mixes rarely pan hard, so amplify the balance
+const MOVEMENT_LOOKAHEAD_SECONDS = 0.5; // Lead turns toward where the sound is heading
+const TURN_BIAS_THRESHOLD = 0.05; // Below this the sound is centered - no preference
+
+export type TurnDirection = 'left' | 'right';
+
+/**
+ * Where to fly vertically: the default street height, above the skyline,
+ * down in the street canyon, or just above the rooftops.
+ */
+export type AltitudeMode = 'cruise' | 'skyline' | 'canyon' | 'rooftop';
+
+/**
+ * Collision queries the path consults before committing a turn
+ * (implemented by ObstacleMap over the loaded city chunks).
+ */
+export interface ObstacleQuery {
+  isSegmentClear(start: THREE.Vector3, end: THREE.Vector3, clearance: number): boolean;
+  getMaxHeightAlong(start: THREE.Vector3, end: THREE.Vector3, radius: number): number;
+}
+
+/**
+ * A rounded corner of the path.
+ */
+export interface PathCorner {
+  startDistance: number; // Distance along the path where the arc begins
+  endDistance: number; // Distance along the path where it ends
+  angle: number; // Signed heading change in radians (+ = left, like flightAngle)
+  curvature: number; // Signed curvature (1 / radius, + = left)
+}
+
+/**
+ * One piece of the path: a straight run, or an arc rounding a corner.
+ * Arcs turn in the XZ plane; height changes linearly along every piece.
+ */
+interface PathPiece {
+  start: number; // Distance along the path where the piece begins
+  length: number;
+  from: THREE.Vector3;
+  to: THREE.Vector3;
+  direction: THREE.Vector3; // Horizontal unit tangent at the start of the piece
+  turn: number; // Signed heading change over the piece (0 for straight runs, + = left)
+  curvature: number; // Signed 1 / radius (0 for straight runs)
+  center: THREE.Vector3 | null; // Arc center (null for straight runs)
+}
+
+/**
+ * Flight height at a distance along the path. Between consecutive keys the
+ * height eases from one to the next.
+ */
+interface AltitudeKey {
+  distance: number;
+  height: number;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Horizontal unit direction from one point to another
+ */
+function getHeading(from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3 {
+  return new THREE.Vector3(to.x - from.x, 0, to.z - from.z).normalize();
+}
+
+/**
+ * Index of the first item for which a test passes, in a list where it fails
+ * for a leading run and passes from there on (items.length if it never passes)
+ */
+function findFirstIndex<T>(items: T[], test: (item: T) => boolean): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (test(items[middle])) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
 /**
  * Calculate the center position of a street given its index
  */
@@ -28,14 +142,28 @@ function getStreetCenter(streetIndex: number): number {
   return streetIndex * BLOCK_WITH_STREET + CITY_BLOCK_SIZE + STREET_WIDTH / 2;
 }
 
+/**
+ * Inverse of getStreetCenter()
+ */
+function getStreetIndex(center: number): number {
+  return Math.round((center - CITY_BLOCK_SIZE - STREET_WIDTH / 2) / BLOCK_WITH_STREET);
+}
+
 /**
  * FlightPath manages camera movement through city streets.
- * Uses straight line segments between intersections.
+ * Control points sit on intersections; the path runs straight between them and
+ * sweeps around corners on arcs, parameterized by arc length. A queued turn
+ * cuts the path at an intersection ahead and continues it along the cross street.
+ * Altitude is a separate eased profile over the same distances, so climbs and
+ * dives don't disturb the ground track (distances are measured along it).
+ * Only a window around the camera is kept: the path is extended piece by
+ * piece ahead and dropped behind, while distances keep counting from the start.
  */
 export class FlightPath {
   private controlPoints: THREE.Vector3[] = [];
-  private segmentLengths: number[] = []; // Length of each segment
-  private cumulativeDistances: number[] = []; // Cumulative distance to start of each segment
+  private pieces: PathPiece[] = []; // Straight runs and corner arcs, in order
+  private pointDistances: number[] = [0]; // Distance along the path at (or, for corners, closest to) each control point
+  private pieceEnds: number[] = [0]; // Index just past each control point's last piece
   private totalLength: number = 0;
 
   // Direction tracking
@@ -43,9 +171,22 @@ export class FlightPath {
   private currentStreetX: number = 0;
   private currentStreetZ: number = 0;
 
+  // Distance along the path of the most recently queued turn's corner
+  private lastTurnDistance: number = -Infinity;
+
+  private obstacles: ObstacleQuery | null = null;
+
+  // Altitude choreography
+  private altitudeMode: AltitudeMode = 'cruise';
+  private altitudeKeys: AltitudeKey[] = [{ distance: 0, height: FLIGHT_HEIGHT }];
+
+  // Stereo steering
+  private lateralDrift: number = 0; // World units to the right of the street center
+  private turnBias: number = 0; // -1 = prefer left, 1 = prefer right
+
   constructor() {
     this.addInitialPoints();
-    this.updateDistances();
+    this.updatePiecesFrom(1);
   }
 
   private addInitialPoints(): void {
@@ -66,68 +207,524 @@ export class FlightPath {
     }
   }
 
-  private updateDistances(): void {
-    this.segmentLengths = [];
-    this.cumulativeDistances = [0];
+  /**
+   * Rebuild the straight runs and corner arcs from a control point onward,
+   * after the points following it were replaced or added (the points up to
+   * and including it must be unchanged). Earlier pieces are kept.
+   */
+  private updatePiecesFrom(index: number): void {
+    const firstIndex = Math.max(1, index);
+    this.pieces.length = this.pieceEnds[firstIndex - 1];
+    this.pieceEnds.length = firstIndex;
+    this.pointDistances.length = firstIndex;
+
+    const lastPiece = this.pieces[this.pieces.length - 1];
+    this.totalLength = lastPiece ? lastPiece.start + lastPiece.length : 0;
+
+    let runStart = lastPiece ? lastPiece.to : this.controlPoints[0];
+    for (let i = firstIndex; i < this.controlPoints.length; i++) {
+      const corner = i < this.controlPoints.length - 1 ? this.createCornerArc(i) : null;
+      if (!corner) {
+        this.addPiece(runStart, this.controlPoints[i], 0, null);
+        this.pointDistances.push(this.totalLength);
+        runStart = this.controlPoints[i];
+      } else {
+        this.addPiece(runStart, corner.from, 0, null);
+        const arc = this.addPiece(corner.from, corner.to, corner.turn, corner.center);
+        this.pointDistances.push(arc.start + arc.length / 2);
+        runStart = corner.to;
+      }
+      this.pieceEnds.push(this.pieces.length);
+    }
+  }
 
-    for (let i = 1; i < this.controlPoints.length; i++) {
-      const len = this.controlPoints[i].distanceTo(this.controlPoints[i - 1]);
-      this.segmentLengths.push(len);
-      this.cumulativeDistances.push(this.cumulativeDistances[i - 1] + len);
+  /**
+   * Drop the control points and pieces that end before a distance, and the
+   * altitude keys no longer needed to ease through it. At least two control
+   * points are kept.
+   */
+  private trimBefore(distance: number): void {
+    let count = 0;
+    while (count < this.controlPoints.length - 2) {
+      // Dropping one more point drops its pieces too
+      const lastPiece = this.pieces[this.pieceEnds[count] - 1];
+      if (lastPiece && lastPiece.start + lastPiece.length > distance) break;
+      count++;
     }
 
-    this.totalLength = this.cumulativeDistances[this.cumulativeDistances.length - 1] || 0;
+    if (count > 0) {
+      const droppedPieces = this.pieceEnds[count - 1];
+      this.controlPoints.splice(0, count);
+      this.pointDistances.splice(0, count);
+      this.pieceEnds.splice(0, count);
+      this.pieces.splice(0, droppedPieces);
+      for (let i = 0; i < this.pieceEnds.length; i++) {
+        this.pieceEnds[i] -= droppedPieces;
+      }
+    }
+
+    // Keep the last key at or before the distance - the span through it starts there
+    const firstKept = findFirstIndex(this.altitudeKeys, key => key.distance > distance) - 1;
+    if (firstKept > 0) {
+      this.altitudeKeys.splice(0, firstKept);
+    }
   }
 
   /**
-   * Get position at a given distance along the path
+   * Fit an arc into the corner at a control point: tangent to both streets,
+   * CORNER_RADIUS unless the neighbouring segments are too short for it.
+   * Returns null where the heading doesn't change.
    */
-  public getPositionAtDistance(distance: number): THREE.Vector3 {
-    if (distance <= 0) return this.controlPoints[0].clone();
-    if (distance >= this.totalLength) return this.controlPoints[this.controlPoints.length - 1].clone();
-
-    // Find which segment we're in
-    let segmentIndex = 0;
-    for (let i = 1; i < this.cumulativeDistances.length; i++) {
-      if (distance < this.cumulativeDistances[i]) {
-        segmentIndex = i - 1;
-        break;
+  private createCornerArc(index: number): { from: THREE.Vector3; to: THREE.Vector3; turn: number; center: THREE.Vector3 } | null {
+    const previous = this.controlPoints[index - 1];
+    const corner = this.controlPoints[index];
+    const next = this.controlPoints[index + 1];
+
+    const incoming = getHeading(previous, corner);
+    const outgoing = getHeading(corner, next);
+    const turn = Math.atan2(
+      incoming.z * outgoing.x - incoming.x * outgoing.z,
+      incoming.x * outgoing.x + incoming.z * outgoing.z
+    );
+    // Straight on, or a U-turn that no arc can round
+    if (Math.abs(turn) < 1e-6 || Math.abs(turn) > Math.PI - 1e-3) {
+      return null;
+    }
+
+    const incomingLength = Math.hypot(corner.x - previous.x, corner.z - previous.z);
+    const outgoingLength = Math.hypot(next.x - corner.x, next.z - corner.z);
+    const halfTan = Math.tan(Math.abs(turn) / 2);
+    const radius = Math.min(CORNER_RADIUS, Math.min(incomingLength, outgoingLength) / 2 / halfTan);
+    const setback = radius * halfTan;
+
+    const from = new THREE.Vector3().lerpVectors(corner, previous, setback / incomingLength);
+    const to = new THREE.Vector3().lerpVectors(corner, next, setback / outgoingLength);
+    // The center lies on the inside of the turn (left of the incoming heading for + turns)
+    const left = new THREE.Vector3(incoming.z, 0, -incoming.x);
+    const center = from.clone().addScaledVector(left, Math.sign(turn) * radius);
+    return { from, to, turn, center };
+  }
+
+  private addPiece(from: THREE.Vector3, to: THREE.Vector3, turn: number, center: THREE.Vector3 | null): PathPiece {
+    const rise = to.y - from.y;
+    const horizontalLength = center
+      ? from.clone().setY(0).distanceTo(center.clone().setY(0)) * Math.abs(turn)
+      : Math.hypot(to.x - from.x, to.z - from.z);
+
+    const piece: PathPiece = {
+      start: this.totalLength,
+      length: Math.hypot(horizontalLength, rise),
+      from: from.clone(),
+      to: to.clone(),
+      direction: getHeading(from, to),
+      turn,
+      curvature: center && horizontalLength > 0 ? turn / horizontalLength : 0,
+      center,
+    };
+    if (center) {
+      // An arc's start tangent is perpendicular to its radius
+      piece.direction.subVectors(from, center).setY(0).normalize().applyAxisAngle(UP, Math.sign(turn) * Math.PI / 2);
+    }
+
+    this.pieces.push(piece);
+    this.totalLength += piece.length;
+    return piece;
+  }
+
+  /**
+   * Find the index of the piece containing a distance (clamped to the path)
+   */
+  private findPieceIndex(distance: number): number {
+    const index = findFirstIndex(this.pieces, piece => distance < piece.start + piece.length);
+    return Math.min(index, this.pieces.length - 1);
+  }
+
+  /**
+   * Find the piece containing a distance (clamped to the path)
+   */
+  private findPiece(distance: number): PathPiece {
+    return this.pieces[this.findPieceIndex(distance)];
+  }
+
+  /**
+   * Steer by the stereo field: drift toward the side the sound sits on, and
+   * prefer turning toward where it is (or is heading).
+   * @param balance - -1 (hard left) to 1 (hard right)
+   * @param movement - Balance change per second (+ = moving right)
+   */
+  public setStereoBalance(balance: number, movement: number = 0): void {
+    this.lateralDrift = THREE.MathUtils.clamp(balance * STEREO_DRIFT_GAIN, -1, 1) * MAX_LATERAL_DRIFT;
+    this.turnBias = THREE.MathUtils.clamp(balance + movement * MOVEMENT_LOOKAHEAD_SECONDS, -1, 1);
+  }
+
+  public getLateralDrift(): number {
+    return this.lateralDrift;
+  }
+
+  public getTurnBias(): number {
+    return this.turnBias;
+  }
+
+  /**
+   * Pick a turn direction: toward the sound when it is off-center,
+   * otherwise a coin flip.
+   */
+  public chooseTurnDirection(): TurnDirection {
+    if (Math.abs(this.turnBias) >= TURN_BIAS_THRESHOLD) {
+      return this.turnBias > 0 ? 'right' : 'left';
+    }
+    return Math.random() < 0.5 ? 'left' : 'right';
+  }
+
+  /**
+   * Use collision queries against the real buildings when planning turns
+   */
+  public setObstacleQuery(obstacles: ObstacleQuery | null): void {
+    this.obstacles = obstacles;
+  }
+
+  /**
+   * Heading after turning from the current one
+   */
+  private getTurnedAngle(direction: TurnDirection): number {
+    return this.flightAngle + (direction === 'left' ? Math.PI / 2 : -Math.PI / 2);
+  }
+
+  /**
+   * Check that the cross street is clear past a corner for a turn
+   */
+  private isTurnClear(turnIndex: number, direction: TurnDirection): boolean {
+    if (!this.obstacles) return true;
+    const corner = this.controlPoints[turnIndex].clone().setY(this.getAltitudeAtDistance(this.pointDistances[turnIndex]));
+    const angle = this.getTurnedAngle(direction);
+    const exit = new THREE.Vector3(Math.sin(angle), 0, Math.cos(angle))
+      .multiplyScalar(TURN_CHECK_DISTANCE)
+      .add(corner);
+    return this.obstacles.isSegmentClear(corner, exit, TURN_CLEARANCE);
+  }
+
+  /**
+   * Queue a 90 degree turn at the next intersection the camera can reach.
+   * Everything after that intersection is replaced by the cross street.
+   * If the cross street is blocked the other way is tried, then the turn is
+   * delayed to a later intersection, and skipped if none is clear.
+   * Returns the direction taken, or null if no turn was queued (also while a
+   * previously queued turn is still ahead).
+   * @param direction - Preferred direction, relative to the current heading
+   * @param currentDistance - The camera's distance along the path
+   */
+  public queueTurn(direction: TurnDirection, currentDistance: number): TurnDirection | null {
+    if (this.lastTurnDistance > currentDistance) {
+      return null;
+    }
+
+    // Every control point is an intersection - take the first one far enough ahead
+    const firstIndex = findFirstIndex(this.pointDistances, distance => distance >= currentDistance + MIN_TURN_LEAD_DISTANCE);
+    if (firstIndex < 1 || firstIndex >= this.controlPoints.length) {
+      return null;
+    }
+
+    const alternative: TurnDirection = direction === 'left' ? 'right' : 'left';
+    const lastIndex = Math.min(firstIndex + MAX_TURN_DELAY_INTERSECTIONS, this.controlPoints.length - 1);
+    for (let turnIndex = firstIndex; turnIndex <= lastIndex; turnIndex++) {
+      for (const candidate of [direction, alternative]) {
+        if (this.isTurnClear(turnIndex, candidate)) {
+          this.commitTurn(turnIndex, candidate);
+          return candidate;
+        }
       }
     }
+    return null;
+  }
+
+  /**
+   * Cut the path at an intersection and rebuild it along the cross street
+   */
+  private commitTurn(turnIndex: number, direction: TurnDirection): void {
+    const corner = this.controlPoints[turnIndex];
+    this.controlPoints.length = turnIndex + 1;
+    this.currentStreetX = getStreetIndex(corner.x);
+    this.currentStreetZ = getStreetIndex(corner.z);
+    this.flightAngle = this.getTurnedAngle(direction);
+
+    // Rebuild the path ahead along the cross street
+    const pointsAhead = Math.ceil(EXTEND_AHEAD_DISTANCE / BLOCK_WITH_STREET);
+    for (let i = 0; i < pointsAhead; i++) {
+      this.controlPoints.push(this.generateNextPoint());
+    }
+    this.updatePiecesFrom(turnIndex);
+    this.lastTurnDistance = this.pointDistances[turnIndex];
+    this.extendAltitudePlan(this.lastTurnDistance, this.totalLength);
+  }
+
+  /**
+   * Distance along the path of the middle of the last queued turn's corner (-Infinity if none)
+   */
+  public getLastTurnDistance(): number {
+    return this.lastTurnDistance;
+  }
+
+  /**
+   * Start moving to a new altitude a little ahead of the camera, easing over
+   * a distance that keeps the climb or dive at a flyable gradient. The target
+   * height comes from the actual roofs along the path ahead, and the move is
+   * refused (returns false) if it would bring the flight line too close to a
+   * building.
+   * @param mode - Where to fly
+   * @param currentDistance - The camera's distance along the path
+   */
+  public setAltitudeMode(mode: AltitudeMode, currentDistance: number): boolean {
+    const start = currentDistance + ALTITUDE_LEAD_DISTANCE;
+    const startHeight = this.getAltitudeAtDistance(start);
+    const targetHeight = this.getModeHeight(mode, start, this.totalLength);
+    const moveLength = Math.max(MIN_ALTITUDE_MOVE_DISTANCE, Math.abs(targetHeight - startHeight) / MAX_CLIMB_GRADIENT);
+
+    if (!this.isAltitudeClear(start, this.totalLength, Math.min(startHeight, targetHeight))) {
+      return false;
+    }
 
-    // Interpolate within segment
-    const segmentStart = this.cumulativeDistances[segmentIndex];
-    const segmentLength = this.segmentLengths[segmentIndex];
-    const t = (distance - segmentStart) / segmentLength;
+    // Replace whatever was planned from here on
+    this.altitudeKeys.length = findFirstIndex(this.altitudeKeys, key => key.distance >= start);
+    this.altitudeKeys.push(
+      { distance: start, height: startHeight },
+      { distance: start + moveLength, height: targetHeight }
+    );
+    this.altitudeMode = mode;
+    return true;
+  }
 
-    const p1 = this.controlPoints[segmentIndex];
-    const p2 = this.controlPoints[segmentIndex + 1];
+  public getAltitudeMode(): AltitudeMode {
+    return this.altitudeMode;
+  }
 
-    return new THREE.Vector3().lerpVectors(p1, p2, t);
+  /**
+   * Height a mode flies at over a stretch of the path
+   */
+  private getModeHeight(mode: AltitudeMode, startDistance: number, endDistance: number): number {
+    switch (mode) {
+      case 'canyon':
+        return CANYON_HEIGHT;
+      case 'rooftop':
+        return Math.max(FLIGHT_HEIGHT, this.getMaxRoofHeight(startDistance, endDistance) + ROOFTOP_CLEARANCE);
+      case 'skyline':
+        return Math.max(MIN_SKYLINE_HEIGHT, this.getMaxRoofHeight(startDistance, endDistance) + SKYLINE_CLEARANCE);
+      default:
+        return FLIGHT_HEIGHT;
+    }
   }
 
   /**
-   * Get direction at a given distance along the path
+   * Tallest loaded roof beside a stretch of the path (0 without obstacle queries)
    */
-  public getTangentAtDistance(distance: number): THREE.Vector3 {
-    if (this.controlPoints.length < 2) return new THREE.Vector3(0, 0, 1);
-
-    // Find which segment we're in
-    let segmentIndex = 0;
-    for (let i = 1; i < this.cumulativeDistances.length; i++) {
-      if (distance < this.cumulativeDistances[i]) {
-        segmentIndex = i - 1;
-        break;
+  private getMaxRoofHeight(startDistance: number, endDistance: number): number {
+    if (!this.obstacles) return 0;
+    let maxHeight = 0;
+    for (const piece of this.getPiecesBetween(startDistance, endDistance)) {
+      maxHeight = Math.max(maxHeight, this.obstacles.getMaxHeightAlong(piece.from, piece.to, ROOF_SEARCH_RADIUS));
+    }
+    return maxHeight;
+  }
+
+  /**
+   * Check a stretch of the path is clear of buildings at a height. Buildings
+   * stand on the ground, so being clear at the lowest height of a move means
+   * being clear all the way through it.
+   */
+  private isAltitudeClear(startDistance: number, endDistance: number, height: number): boolean {
+    if (!this.obstacles) return true;
+    return this.getPiecesBetween(startDistance, endDistance).every(piece =>
+      this.obstacles!.isSegmentClear(piece.from.clone().setY(height), piece.to.clone().setY(height), ALTITUDE_CLEARANCE)
+    );
+  }
+
+  /**
+   * Keep rooftop skims and skyline climbs above the roofs of newly generated
+   * stretches, climbing ahead of any taller buildings.
+   */
+  private extendAltitudePlan(startDistance: number, endDistance: number): void {
+    if (this.altitudeMode !== 'rooftop' && this.altitudeMode !== 'skyline') return;
+
+    const last = this.altitudeKeys[this.altitudeKeys.length - 1];
+    const requiredHeight = this.getModeHeight(this.altitudeMode, startDistance, endDistance);
+    if (requiredHeight <= last.height) return;
+
+    const moveLength = Math.max(MIN_ALTITUDE_MOVE_DISTANCE, (requiredHeight - last.height) / MAX_CLIMB_GRADIENT);
+    const moveStart = Math.max(last.distance, startDistance - moveLength);
+    this.altitudeKeys.push(
+      { distance: moveStart, height: last.height },
+      { distance: moveStart + moveLength, height: requiredHeight }
+    );
+  }
+
+  /**
+   * Get the flight height at a given distance along the path
+   */
+  public getAltitudeAtDistance(distance: number): number {
+    const { from, to, t } = this.getAltitudeSpan(distance);
+    return from.height + (to.height - from.height) * t * t * (3 - 2 * t);
+  }
+
+  /**
+   * Rate of climb (height per unit of distance) at a given distance along the path
+   */
+  private getAltitudeSlopeAtDistance(distance: number): number {
+    const { from, to, t } = this.getAltitudeSpan(distance);
+    const span = to.distance - from.distance;
+    return span > 0 ? (to.height - from.height) * 6 * t * (1 - t) / span : 0;
+  }
+
+  /**
+   * The altitude keys around a distance and how far it is between them (0-1)
+   */
+  private getAltitudeSpan(distance: number): { from: AltitudeKey; to: AltitudeKey; t: number } {
+    const keys = this.altitudeKeys;
+    // Last key at or before the distance (the first key for distances before it)
+    const index = Math.max(0, findFirstIndex(keys, key => key.distance > distance) - 1);
+
+    const from = keys[index];
+    const to = keys[Math.min(index + 1, keys.length - 1)];
+    const span = to.distance - from.distance;
+    const t = span > 0 ? THREE.MathUtils.clamp((distance - from.distance) / span, 0, 1) : 0;
+    return { from, to, t };
+  }
+
+  /**
+   * Get the pieces overlapping a range of distances along the path
+   */
+  private getPiecesBetween(startDistance: number, endDistance: number): PathPiece[] {
+    const pieces: PathPiece[] = [];
+    for (let i = this.findPieceIndex(startDistance); i < this.pieces.length && this.pieces[i].start <= endDistance; i++) {
+      if (this.pieces[i].start + this.pieces[i].length >= startDistance) {
+        pieces.push(this.pieces[i]);
       }
-      segmentIndex = i - 1;
     }
+    return pieces;
+  }
+
+  /**
+   * Offset a path position sideways (relative to the travel direction) by the lateral drift
+   */
+  private applyLateralDrift(position: THREE.Vector3, tangent: THREE.Vector3): THREE.Vector3 {
+    if (this.lateralDrift === 0) return position;
+    const right = new THREE.Vector3().crossVectors(tangent, new THREE.Vector3(0, 1, 0)).normalize();
+    return position.addScaledVector(right, this.lateralDrift);
+  }
+
+  /**
+   * Get position at a given distance along the path (including altitude and lateral drift)
+   */
+  public getPositionAtDistance(distance: number): THREE.Vector3 {
+    const position = this.getGroundTrackPositionAtDistance(distance).setY(this.getAltitudeAtDistance(distance));
+    return this.applyLateralDrift(position, this.getTangentAtDistance(distance));
+  }
+
+  /**
+   * Get position on the street centerline (at the base flight height) at a
+   * given distance along the path
+   */
+  private getGroundTrackPositionAtDistance(distance: number): THREE.Vector3 {
+    const piece = this.findPiece(distance);
+    const t = piece.length > 0 ? THREE.MathUtils.clamp((distance - piece.start) / piece.length, 0, 1) : 0;
+    if (!piece.center) {
+      return new THREE.Vector3().lerpVectors(piece.from, piece.to, t);
+    }
+
+    // Swing the start point around the arc center
+    return new THREE.Vector3()
+      .subVectors(piece.from, piece.center)
+      .setY(0)
+      .applyAxisAngle(UP, piece.turn * t)
+      .add(piece.center)
+      .setY(THREE.MathUtils.lerp(piece.from.y, piece.to.y, t));
+  }
+
+  /**
+   * Get direction at a given distance along the path (including climbs and dives)
+   */
+  public getTangentAtDistance(distance: number): THREE.Vector3 {
+    return this.getGroundTrackTangentAtDistance(distance)
+      .setY(this.getAltitudeSlopeAtDistance(distance))
+      .normalize();
+  }
+
+  /**
+   * Get the horizontal direction of the ground track at a given distance
+   */
+  private getGroundTrackTangentAtDistance(distance: number): THREE.Vector3 {
+    if (this.pieces.length === 0) return new THREE.Vector3(0, 0, 1);
+
+    const piece = this.findPiece(distance);
+    if (!piece.center) {
+      return getHeading(piece.from, piece.to);
+    }
+
+    const t = piece.length > 0 ? THREE.MathUtils.clamp((distance - piece.start) / piece.length, 0, 1) : 0;
+    return piece.direction.clone().applyAxisAngle(UP, piece.turn * t);
+  }
+
+  /**
+   * Get the signed curvature at a given distance along the path
+   * (1 / turn radius, + = turning left, 0 on straight runs)
+   */
+  public getCurvatureAtDistance(distance: number): number {
+    if (this.pieces.length === 0) return 0;
+    return this.findPiece(distance).curvature;
+  }
+
+  /**
+   * Get the corners whose arcs overlap the range between two distances along the path
+   */
+  public getCornersBetween(startDistance: number, endDistance: number): PathCorner[] {
+    const corners: PathCorner[] = [];
+    for (const piece of this.getPiecesBetween(startDistance, endDistance)) {
+      if (!piece.center) continue;
+      corners.push({
+        startDistance: piece.start,
+        endDistance: piece.start + piece.length,
+        angle: piece.turn,
+        curvature: piece.curvature,
+      });
+    }
+    return corners;
+  }
 
-    segmentIndex = Math.min(segmentIndex, this.controlPoints.length - 2);
+  /**
+   * Get the distance along the path of the point nearest to a position
+   */
+  public getNearestDistance(position: THREE.Vector3): number {
+    let nearestDistance = 0;
+    let nearestSquared = Infinity;
+    for (const piece of this.pieces) {
+      const distance = piece.start + piece.length * this.getNearestFractionOfPiece(piece, position);
+      const squared = this.getPositionAtDistance(distance).distanceToSquared(position);
+      if (squared < nearestSquared) {
+        nearestSquared = squared;
+        nearestDistance = distance;
+      }
+    }
+    return nearestDistance;
+  }
 
-    const p1 = this.controlPoints[segmentIndex];
-    const p2 = this.controlPoints[segmentIndex + 1];
+  /**
+   * Fraction (0-1) of the way along a piece to the point nearest a position in XZ
+   */
+  private getNearestFractionOfPiece(piece: PathPiece, position: THREE.Vector3): number {
+    if (!piece.center) {
+      const dx = piece.to.x - piece.from.x;
+      const dz = piece.to.z - piece.from.z;
+      const lengthSquared = dx * dx + dz * dz;
+      if (lengthSquared === 0) return 0;
+      const t = ((position.x - piece.from.x) * dx + (position.z - piece.from.z) * dz) / lengthSquared;
+      return THREE.MathUtils.clamp(t, 0, 1);
+    }
 
-    return new THREE.Vector3().subVectors(p2, p1).normalize();
+    // Signed angle (around +Y) from the arc start to the position, seen from the center
+    const startX = piece.from.x - piece.center.x;
+    const startZ = piece.from.z - piece.center.z;
+    const x = position.x - piece.center.x;
+    const z = position.z - piece.center.z;
+    const angle = Math.atan2(startZ * x - startX * z, startX * x + startZ * z);
+    return THREE.MathUtils.clamp(angle / piece.turn, 0, 1);
   }
 
   /**
@@ -144,11 +741,16 @@ export class FlightPath {
     const distanceToEnd = this.totalLength - currentDistance;
 
     if (distanceToEnd < EXTEND_THRESHOLD) {
+      const previousLength = this.totalLength;
+      const lastIndex = this.controlPoints.length - 1;
       for (let i = 0; i < 5; i++) {
         const newPoint = this.generateNextPoint();
         this.controlPoints.push(newPoint);
       }
-      this.updateDistances();
+      // The old last point becomes a corner (or a straight pass) now it has a point after it
+      this.updatePiecesFrom(lastIndex);
+      this.extendAltitudePlan(previousLength, this.totalLength);
+      this.trimBefore(currentDistance - KEEP_BEHIND_DISTANCE);
     }
   }
 
@@ -175,32 +777,38 @@ export class FlightPath {
 
   // Legacy methods for bulletAvatar compatibility
   public getPositionAtZ(z: number): THREE.Vector3 {
-    // Find closest point by Z
-    for (let i = 0; i < this.controlPoints.length - 1; i++) {
-      const p1 = this.controlPoints[i];
-      const p2 = this.controlPoints[i + 1];
-      if (z >= Math.min(p1.z, p2.z) && z <= Math.max(p1.z, p2.z)) {
-        if (p1.z === p2.z) return p1.clone();
-        const t = (z - p1.z) / (p2.z - p1.z);
-        return new THREE.Vector3().lerpVectors(p1, p2, t);
-      }
-    }
-    return this.controlPoints[0].clone();
+    return this.getPositionAtDistance(this.getDistanceAtZ(z));
   }
 
   public getTangentAtZ(z: number): THREE.Vector3 {
-    for (let i = 0; i < this.controlPoints.length - 1; i++) {
-      const p1 = this.controlPoints[i];
-      const p2 = this.controlPoints[i + 1];
-      if (z >= Math.min(p1.z, p2.z) && z <= Math.max(p1.z, p2.z)) {
-        return new THREE.Vector3().subVectors(p2, p1).normalize();
-      }
-    }
-    return new THREE.Vector3(0, 0, 1);
+    return this.getTangentAtDistance(this.getDistanceAtZ(z));
   }
 
   public getCurve(): THREE.CatmullRomCurve3 {
-    return new THREE.CatmullRomCurve3(this.controlPoints);
+    // Sample each piece's ends (and arc midpoints) so corners stay rounded
+    const points: THREE.Vector3[] = [];
+    for (const piece of this.pieces) {
+      points.push(this.getPositionAtDistance(piece.start));
+      if (piece.center) points.push(this.getPositionAtDistance(piece.start + piece.length / 2));
+    }
+    points.push(this.getPositionAtDistance(this.totalLength));
+    return new THREE.CatmullRomCurve3(points);
+  }
+
+  /**
+   * Get the distance along the path where it first crosses a Z coordinate
+   * (the start of the kept path if it never does)
+   */
+  private getDistanceAtZ(z: number): number {
+    for (const piece of this.pieces) {
+      if (z < Math.min(piece.from.z, piece.to.z) || z > Math.max(piece.from.z, piece.to.z)) continue;
+      if (piece.from.z === piece.to.z) return piece.start;
+      const t = (z - piece.from.z) / (piece.to.z - piece.from.z);
+      if (!piece.center) return piece.start + piece.length * t;
+      const chordPoint = new THREE.Vector3().lerpVectors(piece.from, piece.to, t);
+      return piece.start + piece.length * this.getNearestFractionOfPiece(piece, chordPoint);
+    }
+    return this.pieces.length > 0 ? this.pieces[0].start : 0;
   }
 
   public getLength(): number {
@@ -0,0 +1,202 @@
+import * as THREE from 'three';
+import type { ObstacleQuery } from './flightPath';
+
+// Movement (units per second)
+const PILOT_SPEED = 80;
+const BOOST_MULTIPLIER = 4;
+const VELOCITY_RESPONSE = 8; // Higher = snappier starts and stops
+const MAX_STEP_SECONDS = 0.1; // Cap on a single frame's step (tab was hidden, etc.)
+
+// Mouse look
+const LOOK_SENSITIVITY = 0.0025; // Radians per pixel
+const MAX_PITCH = THREE.MathUtils.degToRad(85);
+
+// Collision
+const PILOT_CLEARANCE = 5; // Keep this far from building bounds
+const MIN_PILOT_HEIGHT = 2; // Stay above the street
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Keys held for each movement axis
+const FORWARD_KEYS = ['KeyW', 'ArrowUp'];
+const BACK_KEYS = ['KeyS', 'ArrowDown'];
+const LEFT_KEYS = ['KeyA', 'ArrowLeft'];
+const RIGHT_KEYS = ['KeyD', 'ArrowRight'];
+const UP_KEYS = ['KeyE'];
+const DOWN_KEYS = ['KeyQ'];
+const BOOST_KEYS = ['ShiftLeft', 'ShiftRight'];
+const MOVEMENT_KEYS = [...FORWARD_KEYS, ...BACK_KEYS, ...LEFT_KEYS, ...RIGHT_KEYS, ...UP_KEYS, ...DOWN_KEYS];
+
+/**
+ * PilotControls lets the user fly the camera by hand: WASD / arrow keys to
+ * move, Q / E to sink and rise, Shift to boost, and mouse look (pointer lock,
+ * or dragging where pointer lock isn't available). Moves that would enter a
+ * loaded building slide along it instead.
+ */
+export class PilotControls {
+  private camera: THREE.PerspectiveCamera;
+  private domElement: HTMLElement;
+  private obstacles: ObstacleQuery | null = null;
+  private enabled: boolean = false;
+
+  // Flight state
+  private yaw: number = 0; // Radians around +Y (0 = looking down -Z)
+  private pitch: number = 0;
+  private velocity: THREE.Vector3 = new THREE.Vector3();
+  private heldKeys: Set<string> = new Set();
+
+  constructor(camera: THREE.PerspectiveCamera, domElement: HTMLElement) {
+    this.camera = camera;
+    this.domElement = domElement;
+
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+    window.addEventListener('mousemove', this.handleMouseMove);
+    this.domElement.addEventListener('click', this.handleClick);
+  }
+
+  /**
+   * Collide with the buildings of the loaded chunks
+   */
+  public setObstacleQuery(obstacles: ObstacleQuery | null): void {
+    this.obstacles = obstacles;
+  }
+
+  /**
+   * Take over the camera, starting from wherever it is looking.
+   */
+  public enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+
+    const direction = this.camera.getWorldDirection(new THREE.Vector3());
+    this.yaw = Math.atan2(-direction.x, -direction.z);
+    this.pitch = THREE.MathUtils.clamp(Math.asin(direction.y), -MAX_PITCH, MAX_PITCH);
+    this.velocity.set(0, 0, 0);
+    this.camera.up.set(0, 1, 0);
+    this.applyRotation();
+    this.requestPointerLock();
+  }
+
+  public disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+    this.heldKeys.clear();
+    if (document.pointerLockElement === this.domElement) {
+      document.exitPointerLock();
+    }
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public getSpeed(): number {
+    return this.velocity.length();
+  }
+
+  /**
+   * Move the camera. Call this every frame while enabled.
+   */
+  public update(deltaTime: number): void {
+    if (!this.enabled) return;
+    const step = Math.min(deltaTime, MAX_STEP_SECONDS);
+
+    // Input in camera space: forward along the view, strafe level, rise straight up
+    const forward = this.camera.getWorldDirection(new THREE.Vector3());
+    const right = new THREE.Vector3(Math.cos(this.yaw), 0, -Math.sin(this.yaw));
+    const input = new THREE.Vector3()
+      .addScaledVector(forward, this.getAxis(FORWARD_KEYS, BACK_KEYS))
+      .addScaledVector(right, this.getAxis(RIGHT_KEYS, LEFT_KEYS))
+      .addScaledVector(UP, this.getAxis(UP_KEYS, DOWN_KEYS));
+    if (input.lengthSq() > 1) input.normalize();
+
+    const boost = this.isHeld(BOOST_KEYS) ? BOOST_MULTIPLIER : 1;
+    const targetVelocity = input.multiplyScalar(PILOT_SPEED * boost);
+    this.velocity.lerp(targetVelocity, 1 - Math.exp(-VELOCITY_RESPONSE * step));
+
+    this.move(this.velocity.clone().multiplyScalar(step));
+  }
+
+  /**
+   * Move by an offset, sliding along any building in the way.
+   */
+  private move(offset: THREE.Vector3): void {
+    if (offset.lengthSq() === 0) return;
+    const position = this.camera.position;
+
+    const next = position.clone().add(offset);
+    if (this.isClear(position, next)) {
+      position.copy(next);
+    } else {
+      // Blocked - try each axis on its own so the camera slides along walls
+      for (const axis of ['x', 'y', 'z'] as const) {
+        const slid = position.clone();
+        slid[axis] += offset[axis];
+        if (offset[axis] !== 0 && this.isClear(position, slid)) {
+          position.copy(slid);
+        } else {
+          this.velocity[axis] = 0;
+        }
+      }
+    }
+    position.y = Math.max(position.y, MIN_PILOT_HEIGHT);
+  }
+
+  private isClear(start: THREE.Vector3, end: THREE.Vector3): boolean {
+    return !this.obstacles || this.obstacles.isSegmentClear(start, end, PILOT_CLEARANCE);
+  }
+
+  private isHeld(codes: string[]): boolean {
+    return codes.some(code => this.heldKeys.has(code));
+  }
+
+  private getAxis(positive: string[], negative: string[]): number {
+    return (this.isHeld(positive) ? 1 : 0) - (this.isHeld(negative) ? 1 : 0);
+  }
+
+  private applyRotation(): void {
+    this.camera.quaternion.setFromEuler(new THREE.Euler(this.pitch, this.yaw, 0, 'YXZ'));
+  }
+
+  private requestPointerLock(): void {
+    // Not every browser supports pointer lock (dragging still looks around)
+    if (this.domElement.requestPointerLock && document.pointerLockElement !== this.domElement) {
+      Promise.resolve(this.domElement.requestPointerLock()).catch(() => {});
+    }
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (!this.enabled || e.target instanceof HTMLInputElement) return;
+    if (MOVEMENT_KEYS.includes(e.code) || BOOST_KEYS.includes(e.code)) {
+      e.preventDefault();
+      this.heldKeys.add(e.code);
+    }
+  };
+
+  private handleKeyUp = (e: KeyboardEvent): void => {
+    this.heldKeys.delete(e.code);
+  };
+
+  // Keys released while the window is unfocused never send keyup
+  private handleBlur = (): void => {
+    this.heldKeys.clear();
+  };
+
+  private handleMouseMove = (e: MouseEvent): void => {
+    if (!this.enabled) return;
+    const locked = document.pointerLockElement === this.domElement;
+    if (!locked && (e.buttons & 1) === 0) return;
+
+    this.yaw -= e.movementX * LOOK_SENSITIVITY;
+    this.pitch = THREE.MathUtils.clamp(this.pitch - e.movementY * LOOK_SENSITIVITY, -MAX_PITCH, MAX_PITCH);
+    this.applyRotation();
+  };
+
+  private handleClick = (): void => {
+    if (this.enabled) {
+      this.requestPointerLock();
+    }
+  };
+}
@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { createShotLibrary, FIRST_PERSON_SHOT } from './shots';
+import type { Shot, ShotFrame, ShotPose } from './shots';
+
+const BLEND_DURATION = 0.8; // Seconds to blend from one shot to the next
+const MIN_SHOT_SECONDS = 2; // Asked for a new shot sooner than this, the director holds the current one
+
+/**
+ * ShotDirector picks camera shots and blends between them.
+ * Cuts happen between frames (from beat callbacks), so a new shot is started
+ * with the next frame; cinematic shots hand back to first-person once their
+ * duration runs out.
+ */
+export class ShotDirector {
+  private shots: Map<string, Shot> = new Map();
+  private currentShot: Shot;
+  private shotElapsed: number = 0;
+  private shotStarted: boolean = false;
+
+  // Blend state
+  private previousShot: Shot | null = null;
+  private previousElapsed: number = 0;
+  private blendProgress: number = 1;
+  private blendDuration: number = BLEND_DURATION;
+  private lastPose: ShotPose | null = null;
+  private lastFramePosition: THREE.Vector3 = new THREE.Vector3();
+  private shotChangeCallbacks: ((shot: Shot, previous: Shot) => void)[] = [];
+
+  constructor(shots: Shot[] = createShotLibrary()) {
+    for (const shot of shots) {
+      this.addShot(shot);
+    }
+    this.currentShot = this.getShot(FIRST_PERSON_SHOT) ?? shots[0];
+  }
+
+  // Register a shot (replaces any shot with the same name)
+  public addShot(shot: Shot): void {
+    this.shots.set(shot.name, shot);
+  }
+
+  public getShot(name: string): Shot | undefined {
+    return this.shots.get(name);
+  }
+
+  public getShotNames(): string[] {
+    return [...this.shots.keys()];
+  }
+
+  public getCurrentShot(): Shot {
+    return this.currentShot;
+  }
+
+  // The shot being blended away from (null once the blend is done)
+  public getPreviousShot(): Shot | null {
+    return this.isBlending() ? this.previousShot : null;
+  }
+
+  public isBlending(): boolean {
+    return this.blendProgress < 1;
+  }
+
+  public getShotElapsed(): number {
+    return this.shotElapsed;
+  }
+
+  /**
+   * Pick a cinematic shot at random, other than the current one.
+   */
+  public chooseShot(): Shot {
+    const candidates = [...this.shots.values()].filter(shot => shot.showsBullet && shot !== this.currentShot);
+    if (candidates.length === 0) return this.currentShot;
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  /**
+   * Cut to a shot, blending from wherever the camera is now.
+   * Returns false for unknown shots or the shot already playing.
+   */
+  public cutTo(name: string): boolean {
+    const shot = this.shots.get(name);
+    if (!shot || shot === this.currentShot) return false;
+
+    const previous = this.currentShot;
+    // Cut mid-blend: blend on from the camera's current pose, carried along with the bullet
+    this.previousShot = this.isBlending() && this.lastPose ? this.createHeldShot(this.lastPose, previous) : previous;
+    this.previousElapsed = this.shotElapsed;
+    this.blendProgress = this.lastPose ? 0 : 1;
+    this.blendDuration = BLEND_DURATION;
+
+    this.currentShot = shot;
+    this.shotElapsed = 0;
+    this.shotStarted = false;
+
+    for (const callback of this.shotChangeCallbacks) {
+      callback(shot, previous);
+    }
+    return true;
+  }
+
+  /**
+   * Blend into the current shot from a fixed camera pose (e.g. where manual
+   * flying left the camera).
+   */
+  public blendFrom(pose: ShotPose, duration: number = BLEND_DURATION): void {
+    const { position, target, up } = pose;
+    this.previousShot = {
+      name: 'held',
+      showsBullet: false,
+      duration: Infinity,
+      getPose: () => ({ position: position.clone(), target: target.clone(), up: up.clone() }),
+    };
+    this.previousElapsed = 0;
+    this.blendProgress = 0;
+    this.blendDuration = duration;
+  }
+
+  // Restart the current shot's clock instead of cutting away
+  public holdShot(): void {
+    this.shotElapsed = 0;
+  }
+
+  /**
+   * Whether a request for a new shot should cut (false while the current
+   * cinematic shot is still fresh).
+   */
+  public shouldCut(): boolean {
+    return !this.currentShot.showsBullet || this.isBlending() || this.shotElapsed >= MIN_SHOT_SECONDS;
+  }
+
+  /**
+   * Advance the shots and get this frame's camera pose.
+   */
+  public update(deltaTime: number, frame: ShotFrame): ShotPose {
+    if (!this.shotStarted) {
+      this.currentShot.start?.(frame);
+      this.shotStarted = true;
+    } else {
+      this.shotElapsed += deltaTime;
+    }
+
+    if (this.shotElapsed >= this.currentShot.duration) {
+      this.cutTo(FIRST_PERSON_SHOT);
+      this.currentShot.start?.(frame);
+      this.shotStarted = true;
+    }
+
+    let pose = this.currentShot.getPose(frame, this.shotElapsed);
+    if (this.isBlending() && this.previousShot) {
+      this.blendProgress = Math.min(1, this.blendProgress + deltaTime / this.blendDuration);
+      this.previousElapsed += deltaTime;
+      const from = this.previousShot.getPose(frame, this.previousElapsed);
+      pose = this.blendPoses(from, pose, THREE.MathUtils.smoothstep(this.blendProgress, 0, 1));
+    }
+
+    this.lastPose = pose;
+    this.lastFramePosition.copy(frame.position);
+    return pose;
+  }
+
+  private blendPoses(from: ShotPose, to: ShotPose, t: number): ShotPose {
+    return {
+      position: new THREE.Vector3().lerpVectors(from.position, to.position, t),
+      target: new THREE.Vector3().lerpVectors(from.target, to.target, t),
+      up: new THREE.Vector3().lerpVectors(from.up, to.up, t).normalize(),
+    };
+  }
+
+  // A frozen pose that keeps its offset from the bullet
+  private createHeldShot(pose: ShotPose, source: Shot): Shot {
+    const positionOffset = pose.position.clone().sub(this.lastFramePosition);
+    const targetOffset = pose.target.clone().sub(this.lastFramePosition);
+    const up = pose.up.clone();
+    return {
+      name: source.name,
+      showsBullet: source.showsBullet,
+      duration: Infinity,
+      getPose: (frame) => ({
+        position: frame.position.clone().add(positionOffset),
+        target: frame.position.clone().add(targetOffset),
+        up: up.clone(),
+      }),
+    };
+  }
+
+  public onShotChange(callback: (shot: Shot, previous: Shot) => void): void {
+    this.shotChangeCallbacks.push(callback);
+  }
+
+  public offShotChange(callback: (shot: Shot, previous: Shot) => void): void {
+    this.shotChangeCallbacks = this.shotChangeCallbacks.filter(cb => cb !== callback);
+  }
+}
@@ -0,0 +1,235 @@
+import * as THREE from 'three';
+import type { FlightPath } from './flightPath';
+
+/**
+ * Where the bullet is this frame, handed to every shot.
+ * `right` and `up` are banked with the bullet; `levelRight` is not.
+ */
+export interface ShotFrame {
+  flightPath: FlightPath;
+  distance: number; // Distance along the path
+  speed: number; // Units per second
+  position: THREE.Vector3; // Bullet position
+  tangent: THREE.Vector3; // Direction of travel
+  right: THREE.Vector3;
+  up: THREE.Vector3;
+  levelRight: THREE.Vector3;
+}
+
+/**
+ * Camera placement for one frame.
+ */
+export interface ShotPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3; // Point the camera looks at
+  up: THREE.Vector3;
+}
+
+/**
+ * A camera shot: a rule for placing the camera relative to the bullet.
+ * Shots that show the bullet count as third-person for perspective callbacks.
+ */
+export interface Shot {
+  name: string;
+  showsBullet: boolean;
+  duration: number; // Seconds the director holds the shot (Infinity = until cut away)
+  /** Called when the director cuts to the shot (pick a side, anchor a position...) */
+  start?(frame: ShotFrame): void;
+  getPose(frame: ShotFrame, elapsed: number): ShotPose;
+}
+
+export const FIRST_PERSON_SHOT = 'first-person';
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// First-person: look this far down the path
+const FIRST_PERSON_LOOK_DISTANCE = 100;
+
+// Chase: behind and above the bullet, rolling with it (x = right, y = up, z = along the tangent)
+const CHASE_OFFSET = new THREE.Vector3(0, 15, -40);
+const CHASE_DURATION = 6;
+
+// Side tracking: level with the bullet, on the side of the street with more room
+const SIDE_OFFSET = 40;
+const SIDE_LEAD = 10; // Sit slightly ahead so the bullet crosses the frame
+const SIDE_DURATION = 5;
+
+// Orbit: circle the bullet while it flies
+const ORBIT_RADIUS = 35; // Stays inside the street even with full lateral drift
+const ORBIT_HEIGHT = 8;
+const ORBIT_TURNS_PER_SECOND = 0.15;
+const ORBIT_DURATION = 6;
+
+// Flyby: parked on the outside of the next corner while the bullet sweeps past
+const FLYBY_LEAD_SECONDS = 2.5; // How far ahead to look for the corner
+const FLYBY_OFFSET = 40;
+const FLYBY_HEIGHT = 6;
+const FLYBY_DURATION = 4.5;
+
+// Drone: looking straight down from high above, top of the screen forward
+const DRONE_HEIGHT = 160;
+const DRONE_LEAD = 30;
+const DRONE_DURATION = 5;
+
+// Street level: low behind the bullet, looking up at it
+const STREET_LEVEL_HEIGHT = 4;
+const STREET_LEVEL_BEHIND = 50;
+const STREET_LEVEL_DURATION = 5;
+
+/**
+ * The side of the street away from the bullet's lateral drift (1 = right, -1 = left)
+ */
+function getRoomierSide(flightPath: FlightPath): number {
+  return flightPath.getLateralDrift() > 0 ? -1 : 1;
+}
+
+export function createFirstPersonShot(): Shot {
+  return {
+    name: FIRST_PERSON_SHOT,
+    showsBullet: false,
+    duration: Infinity,
+    getPose: (frame) => ({
+      position: frame.position.clone(),
+      target: frame.position.clone().addScaledVector(frame.tangent, FIRST_PERSON_LOOK_DISTANCE),
+      up: frame.up.clone(),
+    }),
+  };
+}
+
+export function createChaseShot(): Shot {
+  return {
+    name: 'chase',
+    showsBullet: true,
+    duration: CHASE_DURATION,
+    getPose: (frame) => ({
+      position: frame.position.clone()
+        .addScaledVector(frame.tangent, CHASE_OFFSET.z)
+        .addScaledVector(frame.up, CHASE_OFFSET.y)
+        .addScaledVector(frame.right, CHASE_OFFSET.x),
+      target: frame.position.clone(),
+      up: frame.up.clone(),
+    }),
+  };
+}
+
+export function createSideTrackingShot(): Shot {
+  let side = 1;
+  return {
+    name: 'side-tracking',
+    showsBullet: true,
+    duration: SIDE_DURATION,
+    start: (frame) => {
+      side = getRoomierSide(frame.flightPath);
+    },
+    getPose: (frame) => ({
+      position: frame.position.clone()
+        .addScaledVector(frame.levelRight, side * SIDE_OFFSET)
+        .addScaledVector(frame.tangent, SIDE_LEAD),
+      target: frame.position.clone(),
+      up: UP.clone(),
+    }),
+  };
+}
+
+export function createOrbitShot(): Shot {
+  let direction = 1;
+  return {
+    name: 'orbit',
+    showsBullet: true,
+    duration: ORBIT_DURATION,
+    start: () => {
+      direction = Math.random() < 0.5 ? -1 : 1;
+    },
+    getPose: (frame, elapsed) => {
+      // Start behind the bullet and swing around it
+      const angle = direction * elapsed * ORBIT_TURNS_PER_SECOND * Math.PI * 2;
+      const offset = new THREE.Vector3(-frame.tangent.x, 0, -frame.tangent.z)
+        .normalize()
+        .applyAxisAngle(UP, angle)
+        .multiplyScalar(ORBIT_RADIUS)
+        .setY(ORBIT_HEIGHT);
+      return {
+        position: frame.position.clone().add(offset),
+        target: frame.position.clone(),
+        up: UP.clone(),
+      };
+    },
+  };
+}
+
+export function createFlybyShot(): Shot {
+  const anchor = new THREE.Vector3();
+  return {
+    name: 'flyby',
+    showsBullet: true,
+    duration: FLYBY_DURATION,
+    start: (frame) => {
+      // Park on the outside of the next corner, or beside the street ahead without one
+      const lookAhead = frame.speed * FLYBY_LEAD_SECONDS;
+      const corner = frame.flightPath.getCornersBetween(frame.distance, frame.distance + lookAhead)
+        .find(c => c.startDistance > frame.distance);
+      const distance = corner ? (corner.startDistance + corner.endDistance) / 2 : frame.distance + lookAhead;
+      const side = corner ? Math.sign(corner.curvature) : getRoomierSide(frame.flightPath);
+
+      const tangent = frame.flightPath.getTangentAtDistance(distance);
+      const levelRight = new THREE.Vector3().crossVectors(tangent, UP).normalize();
+      anchor.copy(frame.flightPath.getPositionAtDistance(distance))
+        .addScaledVector(levelRight, side * FLYBY_OFFSET)
+        .addScaledVector(UP, FLYBY_HEIGHT);
+    },
+    getPose: (frame) => ({
+      position: anchor.clone(),
+      target: frame.position.clone(),
+      up: UP.clone(),
+    }),
+  };
+}
+
+export function createDroneShot(): Shot {
+  return {
+    name: 'drone',
+    showsBullet: true,
+    duration: DRONE_DURATION,
+    getPose: (frame) => {
+      const forward = new THREE.Vector3(frame.tangent.x, 0, frame.tangent.z).normalize();
+      return {
+        position: frame.position.clone().addScaledVector(UP, DRONE_HEIGHT),
+        target: frame.position.clone().addScaledVector(forward, DRONE_LEAD),
+        up: forward,
+      };
+    },
+  };
+}
+
+export function createStreetLevelShot(): Shot {
+  return {
+    name: 'street-level',
+    showsBullet: true,
+    duration: STREET_LEVEL_DURATION,
+    getPose: (frame) => {
+      const forward = new THREE.Vector3(frame.tangent.x, 0, frame.tangent.z).normalize();
+      return {
+        position: frame.position.clone()
+          .addScaledVector(forward, -STREET_LEVEL_BEHIND)
+          .setY(STREET_LEVEL_HEIGHT),
+        target: frame.position.clone(),
+        up: UP.clone(),
+      };
+    },
+  };
+}
+
+/**
+ * Create the built-in shots: first-person plus every cinematic shot.
+ */
+export function createShotLibrary(): Shot[] {
+  return [
+    createFirstPersonShot(),
+    createChaseShot(),
+    createSideTrackingShot(),
+    createOrbitShot(),
+    createFlybyShot(),
+    createDroneShot(),
+    createStreetLevelShot(),
+  ];
+}
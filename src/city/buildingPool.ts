@@ -1,5 +1,8 @@
 import * as THREE from 'three';
 import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { applyPaletteTint, NEUTRAL_TINT } from './paletteTint';
+import type { PaletteTint } from './paletteTint';
+import { getLitWindowTint } from './windowTexture';
 
 export interface BuildingTemplate {
   group: THREE.Group;
@@ -13,6 +16,19 @@ let buildingTemplates: BuildingTemplate[] = [];
 let isLoaded = false;
 let loadPromise: Promise<void> | null = null;
 
+// Key palette tint, applied to the materials of every building placed in the city
+let paletteTint: PaletteTint = { ...NEUTRAL_TINT };
+const placedMaterials: Set<THREE.MeshStandardMaterial> = new Set();
+const windowTint = new THREE.Color();
+
+/**
+ * Untinted colors of a placed building material
+ */
+interface BaseColors {
+  color: THREE.Color;
+  emissive: THREE.Color;
+}
+
 // SciFi City buildings
 const SCIFI_BUILDINGS = [
   'SM_Bld_Large_01.fbx',
@@ -181,9 +197,59 @@ export function getBuildingByHeight(heightCategory: number, seed: number): Build
 export function createBuildingMesh(template: BuildingTemplate): THREE.Group {
   const clone = template.group.clone();
   enhanceMaterials(clone);
+
+  // Remember the base colors so the palette tint can be re-applied as it fades
+  getBuildingMaterials(clone).forEach((material) => {
+    const base: BaseColors = { color: material.color.clone(), emissive: material.emissive.clone() };
+    material.userData.baseColors = base;
+    placedMaterials.add(material);
+  });
+  tintMaterials(getBuildingMaterials(clone));
   return clone;
 }
 
+/**
+ * Release a building made by createBuildingMesh() once it leaves the city
+ * (its materials are its own; textures stay shared with the template).
+ */
+export function releaseBuildingMesh(building: THREE.Object3D): void {
+  getBuildingMaterials(building).forEach((material) => {
+    placedMaterials.delete(material);
+    material.dispose();
+  });
+}
+
+function getBuildingMaterials(building: THREE.Object3D): THREE.MeshStandardMaterial[] {
+  const materials: THREE.MeshStandardMaterial[] = [];
+  building.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const mats = Array.isArray(child.material) ? child.material : [child.material];
+    for (const mat of mats) {
+      if (mat instanceof THREE.MeshStandardMaterial) materials.push(mat);
+    }
+  });
+  return materials;
+}
+
+function tintMaterials(materials: Iterable<THREE.MeshStandardMaterial>): void {
+  getLitWindowTint(paletteTint, windowTint);
+  for (const material of materials) {
+    const base = material.userData.baseColors as BaseColors | undefined;
+    if (!base) continue;
+    applyPaletteTint(base.color, paletteTint, material.color);
+    material.emissive.copy(base.emissive).multiply(windowTint);
+  }
+}
+
+/**
+ * Tint the buildings placed in the city (and those placed later): surface
+ * colors follow the palette tint and the night glow is filtered like lit windows.
+ */
+export function setBuildingPoolPaletteTint(tint: PaletteTint): void {
+  paletteTint = { ...tint };
+  tintMaterials(placedMaterials);
+}
+
 export function isBuildingPoolLoaded(): boolean {
   return isLoaded;
 }
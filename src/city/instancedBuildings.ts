@@ -1,6 +1,8 @@
 import * as THREE from 'three';
-import { createWindowTextures, WINDOW_PATTERNS } from './windowTexture';
+import { createWindowTextures, getLitWindowTint, WINDOW_PATTERNS } from './windowTexture';
 import type { WindowPattern } from './windowTexture';
+import { applyPaletteTint, NEUTRAL_TINT } from './paletteTint';
+import type { PaletteTint } from './paletteTint';
 
 /**
  * Simple seeded random number generator (mulberry32)
@@ -60,6 +62,23 @@ function getPaletteColors(palette: ColorPalette): PaletteColors {
   }
 }
 
+// Tint applied on top of the palettes (set by the key palette selector)
+let paletteTint: PaletteTint = { ...NEUTRAL_TINT };
+const scratchColor = new THREE.Color();
+
+/**
+ * Returns the colors for a given palette with the current tint applied
+ */
+function getTintedPaletteColors(palette: ColorPalette): PaletteColors {
+  const colors = getPaletteColors(palette);
+  const tint = (hex: number) => applyPaletteTint(scratchColor.setHex(hex), paletteTint, scratchColor).getHex();
+  return {
+    wall: tint(colors.wall),
+    roof: tint(colors.roof),
+    accent: tint(colors.accent),
+  };
+}
+
 /**
  * Material property ranges for variation
  * Metalness: 0.1-0.5, Roughness: 0.3-0.8
@@ -174,7 +193,8 @@ function getSharedMaterials(): THREE.MeshStandardMaterial[][] {
         const seed = patternIdx * 12345 + paletteIdx * 1000;
         const pattern: WindowPattern = WINDOW_PATTERNS[patternIdx];
         const palette = COLOR_PALETTES[paletteIdx];
-        const paletteColors = getPaletteColors(palette);
+        const paletteColors = getTintedPaletteColors(palette);
+        const windowTint = getLitWindowTint(paletteTint).getHex();
 
         const litProbability = 0.3 + (patternIdx / WINDOW_PATTERNS.length) * 0.3;
         const { colorTexture, emissiveTexture } = createWindowTextures(seed, litProbability, pattern);
@@ -194,7 +214,7 @@ function getSharedMaterials(): THREE.MeshStandardMaterial[][] {
             color: paletteColors.wall,
             map: colorTexture.clone(),
             emissiveMap: emissiveTexture.clone(),
-            emissive: 0xffffff,
+            emissive: windowTint,
             emissiveIntensity: 0.8,
             roughness: matProps.roughness,
             metalness: matProps.metalness,
@@ -204,7 +224,7 @@ function getSharedMaterials(): THREE.MeshStandardMaterial[][] {
             color: paletteColors.wall,
             map: colorTexture.clone(),
             emissiveMap: emissiveTexture.clone(),
-            emissive: 0xffffff,
+            emissive: windowTint,
             emissiveIntensity: 0.8,
             roughness: matProps.roughness,
             metalness: matProps.metalness,
@@ -226,7 +246,7 @@ function getSharedMaterials(): THREE.MeshStandardMaterial[][] {
             color: paletteColors.wall,
             map: colorTexture.clone(),
             emissiveMap: emissiveTexture.clone(),
-            emissive: 0xffffff,
+            emissive: windowTint,
             emissiveIntensity: 0.8,
             roughness: matProps.roughness,
             metalness: matProps.metalness,
@@ -236,7 +256,7 @@ function getSharedMaterials(): THREE.MeshStandardMaterial[][] {
             color: paletteColors.wall,
             map: colorTexture.clone(),
             emissiveMap: emissiveTexture.clone(),
-            emissive: 0xffffff,
+            emissive: windowTint,
             emissiveIntensity: 0.8,
             roughness: matProps.roughness,
             metalness: matProps.metalness,
@@ -373,6 +393,34 @@ export function createInstancedBuildings(
   return instancedMeshes;
 }
 
+// Material array indices of the roof and base faces (no windows)
+const ROOF_FACES = [2, 3];
+
+/**
+ * Tints the shared building materials: wall and roof colors follow the
+ * palette tint, and lit windows are filtered through the emissive color.
+ * Materials created later pick up the same tint.
+ */
+export function setBuildingPaletteTint(tint: PaletteTint): void {
+  paletteTint = { ...tint };
+  if (!sharedMaterials) return;
+
+  const windowTint = getLitWindowTint(paletteTint);
+  for (let materialKey = 0; materialKey < sharedMaterials.length; materialKey++) {
+    const palette = COLOR_PALETTES[materialKey % COLOR_PALETTES.length];
+    const paletteColors = getTintedPaletteColors(palette);
+
+    sharedMaterials[materialKey].forEach((material, face) => {
+      if (ROOF_FACES.includes(face)) {
+        material.color.setHex(paletteColors.roof);
+      } else {
+        material.color.setHex(paletteColors.wall);
+        material.emissive.copy(windowTint);
+      }
+    });
+  }
+}
+
 /**
  * Disposes of shared resources (call when app is shutting down)
  */
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { createModelChunk, CHUNK_SIZE } from './modelChunk';
-import { loadBuildingPool } from './buildingPool';
+import { loadBuildingPool, releaseBuildingMesh } from './buildingPool';
+import { ObstacleMap } from './obstacleMap';
 
 // How far ahead/behind to render chunks
 const RENDER_DISTANCE = 12; // chunks in each direction for very long view distance
@@ -11,6 +12,7 @@ const RENDER_DISTANCE = 12; // chunks in each direction for very long view dista
 export class ModelChunkManager {
   private scene: THREE.Scene;
   private loadedChunks: Map<string, THREE.Group> = new Map();
+  private obstacleMap: ObstacleMap = new ObstacleMap();
   private isReady: boolean = false;
 
   constructor(scene: THREE.Scene) {
@@ -42,6 +44,7 @@ export class ModelChunkManager {
 
     const chunk = createModelChunk(chunkX, chunkZ);
     this.loadedChunks.set(key, chunk);
+    this.obstacleMap.addChunk(chunkX, chunkZ, chunk);
     this.scene.add(chunk);
   }
 
@@ -52,15 +55,14 @@ export class ModelChunkManager {
     if (chunk) {
       this.scene.remove(chunk);
       
-      // Dispose of geometries and materials
-      chunk.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          // Don't dispose shared geometries/materials from the pool
-          // They're shared across all chunks
-        }
-      });
+      // Geometries and textures are shared with the pool templates; each
+      // building's materials are its own
+      for (const building of chunk.children) {
+        releaseBuildingMesh(building);
+      }
       
       this.loadedChunks.delete(key);
+      this.obstacleMap.removeChunk(chunkX, chunkZ);
     }
   }
 
@@ -98,6 +100,13 @@ export class ModelChunkManager {
     }
   }
 
+  /**
+   * Collision queries against the buildings in the loaded chunks
+   */
+  public getObstacleMap(): ObstacleMap {
+    return this.obstacleMap;
+  }
+
   public getLoadedChunkCount(): number {
     return this.loadedChunks.size;
   }
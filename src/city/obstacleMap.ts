@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import { CHUNK_SIZE } from './modelChunk';
+
+/**
+ * A loaded chunk and the world-space bounds of its buildings
+ * (measured the first time a query reaches the chunk).
+ */
+interface ChunkObstacles {
+  group: THREE.Group;
+  boxes: THREE.Box3[] | null;
+}
+
+// Scratch objects to avoid per-query allocation
+const ray = new THREE.Ray();
+const expanded = new THREE.Box3();
+const hit = new THREE.Vector3();
+
+/**
+ * ObstacleMap answers collision queries against the buildings actually placed
+ * in the loaded chunks. Each building is approximated by its world-space
+ * bounding box, so queries stay cheap enough to run while planning the path.
+ */
+export class ObstacleMap {
+  private chunks: Map<string, ChunkObstacles> = new Map();
+
+  private getChunkKey(chunkX: number, chunkZ: number): string {
+    return `${chunkX},${chunkZ}`;
+  }
+
+  public addChunk(chunkX: number, chunkZ: number, group: THREE.Group): void {
+    this.chunks.set(this.getChunkKey(chunkX, chunkZ), { group, boxes: null });
+  }
+
+  public removeChunk(chunkX: number, chunkZ: number): void {
+    this.chunks.delete(this.getChunkKey(chunkX, chunkZ));
+  }
+
+  private getBoxes(chunk: ChunkObstacles): THREE.Box3[] {
+    if (!chunk.boxes) {
+      chunk.group.updateMatrixWorld(true);
+      chunk.boxes = chunk.group.children.map(building => new THREE.Box3().setFromObject(building));
+    }
+    return chunk.boxes;
+  }
+
+  /**
+   * Visit the building boxes of every loaded chunk overlapping an XZ area.
+   * Stops early when the visitor returns true.
+   */
+  private someBoxInArea(minX: number, minZ: number, maxX: number, maxZ: number, visit: (box: THREE.Box3) => boolean): boolean {
+    for (let cx = Math.floor(minX / CHUNK_SIZE); cx <= Math.floor(maxX / CHUNK_SIZE); cx++) {
+      for (let cz = Math.floor(minZ / CHUNK_SIZE); cz <= Math.floor(maxZ / CHUNK_SIZE); cz++) {
+        const chunk = this.chunks.get(this.getChunkKey(cx, cz));
+        if (!chunk) continue;
+        for (const box of this.getBoxes(chunk)) {
+          if (visit(box)) return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check whether a straight move keeps at least `clearance` units from every
+   * loaded building. Areas with no loaded chunk count as clear.
+   */
+  public isSegmentClear(start: THREE.Vector3, end: THREE.Vector3, clearance: number): boolean {
+    const length = start.distanceTo(end);
+    ray.origin.copy(start);
+    ray.direction.subVectors(end, start).normalize();
+
+    const blocked = this.someBoxInArea(
+      Math.min(start.x, end.x) - clearance,
+      Math.min(start.z, end.z) - clearance,
+      Math.max(start.x, end.x) + clearance,
+      Math.max(start.z, end.z) + clearance,
+      (box) => {
+        expanded.copy(box).expandByScalar(clearance);
+        if (expanded.containsPoint(start)) return true;
+        return length > 0 && ray.intersectBox(expanded, hit) !== null && start.distanceTo(hit) <= length;
+      }
+    );
+    return !blocked;
+  }
+
+  /**
+   * Get the tallest roof of the loaded buildings within `radius` of a straight
+   * move in XZ (0 if none). Tests against the move's bounding rectangle, so it
+   * is exact for the axis-aligned streets and conservative otherwise.
+   */
+  public getMaxHeightAlong(start: THREE.Vector3, end: THREE.Vector3, radius: number): number {
+    const minX = Math.min(start.x, end.x) - radius;
+    const minZ = Math.min(start.z, end.z) - radius;
+    const maxX = Math.max(start.x, end.x) + radius;
+    const maxZ = Math.max(start.z, end.z) + radius;
+
+    let maxHeight = 0;
+    this.someBoxInArea(minX, minZ, maxX, maxZ, (box) => {
+      if (box.max.x >= minX && box.min.x <= maxX && box.max.z >= minZ && box.min.z <= maxZ) {
+        maxHeight = Math.max(maxHeight, box.max.y);
+      }
+      return false;
+    });
+    return maxHeight;
+  }
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+
+/**
+ * A hue shift applied on top of the city's base colors.
+ * Base colors keep their own lightness, so the dark nighttime look survives
+ * any tint; only hue and saturation are pulled toward the tint.
+ */
+export interface PaletteTint {
+  hue: number;        // Target hue (0-1)
+  saturation: number; // Target saturation (0-1)
+  lightness: number;  // Lightness multiplier for sky/fog (1 = unchanged)
+  amount: number;     // Blend toward the tint (0 = base colors, 1 = full tint)
+}
+
+export const NEUTRAL_TINT: PaletteTint = { hue: 0, saturation: 0, lightness: 1, amount: 0 };
+
+// Scratch objects to avoid per-call allocation
+const baseHsl = { h: 0, s: 0, l: 0 };
+const tinted = new THREE.Color();
+
+/**
+ * Tint a base color, writing the result into target.
+ * @param base - Untinted color
+ * @param tint - Tint to apply
+ * @param target - Color to write into (may be the same object as base)
+ * @param applyLightness - Also scale lightness (sky and fog, not surfaces)
+ */
+export function applyPaletteTint(
+  base: THREE.Color,
+  tint: PaletteTint,
+  target: THREE.Color,
+  applyLightness: boolean = false
+): THREE.Color {
+  base.getHSL(baseHsl);
+  const lightness = applyLightness ? baseHsl.l * tint.lightness : baseHsl.l;
+  tinted.setHSL(tint.hue, Math.max(baseHsl.s, tint.saturation), Math.min(1, lightness));
+
+  return target.copy(base).lerp(tinted, THREE.MathUtils.clamp(tint.amount, 0, 1));
+}
+
+/**
+ * Interpolate between two hues (0-1), taking the short way around the circle.
+ */
+export function lerpHue(from: number, to: number, t: number): number {
+  let delta = to - from;
+  if (delta > 0.5) delta -= 1;
+  if (delta < -0.5) delta += 1;
+  const hue = from + delta * t;
+  return ((hue % 1) + 1) % 1;
+}
+
+/**
+ * Interpolate between two tints.
+ */
+export function lerpPaletteTint(from: PaletteTint, to: PaletteTint, t: number, target: PaletteTint): PaletteTint {
+  // A neutral tint has no meaningful hue, so fade in at the destination hue
+  const fromHue = from.amount > 0 ? from.hue : to.hue;
+  const toHue = to.amount > 0 ? to.hue : fromHue;
+
+  target.hue = lerpHue(fromHue, toHue, t);
+  target.saturation = from.saturation + (to.saturation - from.saturation) * t;
+  target.lightness = from.lightness + (to.lightness - from.lightness) * t;
+  target.amount = from.amount + (to.amount - from.amount) * t;
+  return target;
+}
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import type { PaletteTint } from './paletteTint';
 
 /**
  * Simple seeded random number generator (mulberry32)
@@ -34,6 +35,10 @@ const WINDOW_FRAME_COLOR = '#2a2a3a';
 const LIT_WINDOW_COLORS = ['#ffe4a8', '#ffd080', '#ffcc66', '#e6c078'];
 const DARK_WINDOW_COLOR = '#0a0a14';
 
+// Lightness of the emissive filter at full tint - keeps tinted windows bright
+const LIT_WINDOW_TINT_LIGHTNESS = 0.8;
+const litWindowFilter = new THREE.Color();
+
 /**
  * Determines if a window should exist at a given position based on pattern
  */
@@ -180,6 +185,18 @@ export function createWindowTextures(
   return { colorTexture, emissiveTexture };
 }
 
+/**
+ * Computes the emissive color that tints the lit windows.
+ * Lit window colors are baked into cached textures, so rather than redraw
+ * them the tint is applied as a filter: the material's emissive color is
+ * multiplied with the emissive map. A neutral tint gives white (warm windows
+ * unchanged); a cold tint pulls them toward blue-white.
+ */
+export function getLitWindowTint(tint: PaletteTint, target: THREE.Color = new THREE.Color()): THREE.Color {
+  litWindowFilter.setHSL(tint.hue, tint.saturation, LIT_WINDOW_TINT_LIGHTNESS);
+  return target.setRGB(1, 1, 1).lerp(litWindowFilter, THREE.MathUtils.clamp(tint.amount, 0, 1));
+}
+
 /**
  * Selects a window pattern based on seed, ensuring adjacent buildings get different patterns
  * Uses the seed to pick from available patterns in a way that neighboring seeds differ
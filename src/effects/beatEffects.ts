@@ -19,6 +19,7 @@ let camera: THREE.PerspectiveCamera | null = null;
 let vignetteElement: HTMLDivElement | null = null;
 let currentFovPulse = 0; // Current FOV addition
 let currentVignetteIntensity = BASE_VIGNETTE_INTENSITY;
+let effectScale = 1; // Multiplier applied to every pulse (set per song section)
 
 /**
  * Initialize beat effects with required references.
@@ -70,7 +71,7 @@ function createVignetteOverlay(): void {
  */
 export function triggerBeatPulse(intensity: number): void {
   // Clamp intensity
-  const clampedIntensity = Math.max(0, Math.min(1, intensity));
+  const clampedIntensity = Math.max(0, Math.min(1, intensity)) * effectScale;
 
   // Set FOV pulse based on intensity
   currentFovPulse = MAX_FOV_PULSE * clampedIntensity;
@@ -79,6 +80,14 @@ export function triggerBeatPulse(intensity: number): void {
   currentVignetteIntensity = MAX_VIGNETTE_INTENSITY * clampedIntensity;
 }
 
+/**
+ * Scale how strongly beats pulse the FOV and vignette.
+ * @param scale - Multiplier from 0 (no pulse) upward, 1 = default
+ */
+export function setBeatEffectScale(scale: number): void {
+  effectScale = Math.max(0, scale);
+}
+
 /**
  * Update beat effects. Call this every frame.
  * @param deltaTime - Time since last frame in seconds
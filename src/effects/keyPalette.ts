@@ -0,0 +1,89 @@
+/**
+ * Key palette effect - tints the city by the music's key.
+ * Each key gets a hue from its place on the circle of fifths, so related keys
+ * get related colors and every song looks a little different. Major keys are
+ * pulled toward warm amber and minor keys toward cold blue with a darker sky.
+ * Tint changes fade in over a few seconds.
+ */
+
+import { onKeyChange } from '../audio/keyDetector';
+import type { MusicalKey } from '../audio/keyDetector';
+import { setBuildingPaletteTint } from '../city/instancedBuildings';
+import { setBuildingPoolPaletteTint } from '../city/buildingPool';
+import { setLightingTint } from '../lighting';
+import { lerpHue, lerpPaletteTint, NEUTRAL_TINT } from '../city/paletteTint';
+import type { PaletteTint } from '../city/paletteTint';
+
+// Mode character: where each mode pulls the key's hue, and how strongly
+const MODE_STYLES = {
+  major: { hue: 0.08, pull: 0.4, saturation: 0.5, lightness: 1.05 }, // Warm amber, bright sky
+  minor: { hue: 0.62, pull: 0.4, saturation: 0.35, lightness: 0.8 }, // Cold blue, darker sky
+};
+
+const MAX_TINT_AMOUNT = 0.6; // Keep the base palettes recognizable
+const FULL_CONFIDENCE = 0.7; // Key correlation that earns the full tint
+const TINT_FADE_RATE = 0.8; // How fast the tint follows key changes (higher = faster)
+const SETTLED_THRESHOLD = 0.002; // Stop recoloring once this close to the target
+
+// State
+let currentTint: PaletteTint = { ...NEUTRAL_TINT };
+let targetTint: PaletteTint = { ...NEUTRAL_TINT };
+let isSettled = true;
+
+/**
+ * Get the palette tint for a key.
+ */
+export function getKeyTint(key: MusicalKey): PaletteTint {
+  const style = MODE_STYLES[key.mode];
+  const fifths = (key.tonic * 7) % 12;
+
+  return {
+    hue: lerpHue(fifths / 12, style.hue, style.pull),
+    saturation: style.saturation,
+    lightness: style.lightness,
+    amount: MAX_TINT_AMOUNT * Math.min(1, key.confidence / FULL_CONFIDENCE),
+  };
+}
+
+/**
+ * Initialize the key palette effect (subscribes to key changes).
+ */
+export function initKeyPalette(): void {
+  onKeyChange((key) => {
+    targetTint = getKeyTint(key);
+    isSettled = false;
+  });
+}
+
+/**
+ * Update the key palette effect. Call this every frame.
+ * @param deltaTime - Time since last frame in seconds
+ */
+export function updateKeyPalette(deltaTime: number): void {
+  if (isSettled) return;
+
+  const fade = 1 - Math.exp(-TINT_FADE_RATE * deltaTime);
+  lerpPaletteTint(currentTint, targetTint, fade, currentTint);
+
+  const hueDistance = Math.abs(targetTint.hue - currentTint.hue);
+  if (
+    Math.min(hueDistance, 1 - hueDistance) < SETTLED_THRESHOLD &&
+    Math.abs(currentTint.saturation - targetTint.saturation) < SETTLED_THRESHOLD &&
+    Math.abs(currentTint.lightness - targetTint.lightness) < SETTLED_THRESHOLD &&
+    Math.abs(currentTint.amount - targetTint.amount) < SETTLED_THRESHOLD
+  ) {
+    currentTint = { ...targetTint };
+    isSettled = true;
+  }
+
+  setBuildingPaletteTint(currentTint);
+  setBuildingPoolPaletteTint(currentTint);
+  setLightingTint(currentTint);
+}
+
+/**
+ * Get the tint currently applied to the city.
+ */
+export function getCurrentPaletteTint(): PaletteTint {
+  return currentTint;
+}
@@ -1,4 +1,16 @@
 import * as THREE from 'three';
+import { applyPaletteTint } from './city/paletteTint';
+import type { PaletteTint } from './city/paletteTint';
+
+// Base colors that the palette tint is applied on top of
+const SKY_COLOR = new THREE.Color(0x667788);
+const AMBIENT_COLOR = new THREE.Color(0xaabbcc);
+const HEMISPHERE_SKY_COLOR = new THREE.Color(0x99aacc);
+
+// Scene objects recolored by setLightingTint
+let tintedScene: THREE.Scene | null = null;
+let ambientLight: THREE.AmbientLight | null = null;
+let hemisphereLight: THREE.HemisphereLight | null = null;
 
 /**
  * Sets up bright lighting for the city scene.
@@ -6,13 +18,13 @@ import * as THREE from 'three';
  */
 export function setupLighting(scene: THREE.Scene): void {
   // Light blue-gray sky
-  scene.background = new THREE.Color(0x667788);
+  scene.background = SKY_COLOR.clone();
 
   // Fog pushed way out for longer view distance
-  scene.fog = new THREE.Fog(0x667788, 400, 2000);
+  scene.fog = new THREE.Fog(SKY_COLOR.clone(), 400, 2000);
 
   // Very strong ambient light for visibility
-  const ambientLight = new THREE.AmbientLight(0xaabbcc, 5.0);
+  ambientLight = new THREE.AmbientLight(AMBIENT_COLOR.clone(), 5.0);
   scene.add(ambientLight);
 
   // Main directional light - bright moonlight
@@ -35,6 +47,29 @@ export function setupLighting(scene: THREE.Scene): void {
   scene.add(rightLight);
 
   // Hemisphere light for strong fill
-  const hemisphereLight = new THREE.HemisphereLight(0x99aacc, 0x445566, 3.0);
+  hemisphereLight = new THREE.HemisphereLight(HEMISPHERE_SKY_COLOR.clone(), 0x445566, 3.0);
   scene.add(hemisphereLight);
+
+  tintedScene = scene;
+}
+
+/**
+ * Tint the sky, fog and ambient fill.
+ * Sky and fog also take the tint's lightness, so colder palettes read darker.
+ */
+export function setLightingTint(tint: PaletteTint): void {
+  if (!tintedScene) return;
+
+  if (tintedScene.background instanceof THREE.Color) {
+    applyPaletteTint(SKY_COLOR, tint, tintedScene.background, true);
+  }
+  if (tintedScene.fog) {
+    applyPaletteTint(SKY_COLOR, tint, tintedScene.fog.color, true);
+  }
+  if (ambientLight) {
+    applyPaletteTint(AMBIENT_COLOR, tint, ambientLight.color);
+  }
+  if (hemisphereLight) {
+    applyPaletteTint(HEMISPHERE_SKY_COLOR, tint, hemisphereLight.color);
+  }
 }
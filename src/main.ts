@@ -2,13 +2,37 @@ import './style.css';
 import * as THREE from 'three';
 import { ModelChunkManager } from './city/modelChunkManager';
 import { setupLighting } from './lighting';
-import { CameraController } from './camera/cameraController';
+import { CameraController, BEAT_WINDUP_LEAD_MS } from './camera/cameraController';
+import type { AltitudeMode } from './camera/flightPath';
 import { BulletAvatar } from './camera/bulletAvatar';
-import { initAudio, loadAudio, play } from './audio/audioPlayer';
-import { startSystemAudioCapture } from './audio/systemAudio';
-import { updateBeatDetection, onBeat, onTransition } from './audio/beatDetector';
-import { initBeatEffects, triggerBeatPulse, updateBeatEffects } from './effects/beatEffects';
+import { PilotControls } from './camera/pilotControls';
+import {
+  getAudioContext, pause, resume, seek,
+  getIsPlaying, getIsPaused, getCurrentTime, getDuration,
+} from './audio/audioPlayer';
+import { listInputDevices, getSavedInputDeviceId, supportsInputAudio } from './audio/inputAudio';
+import { getAnalyserNode } from './audio/audioAnalyser';
+import { initOnsetWorklet } from './audio/onsetWorklet';
+import {
+  addTracks, addFiles, playTrack, playNext, playPrevious, getTracks, getCurrentTrack,
+  setShuffle, getShuffle, cycleRepeat, onTrackChange, getTrackId, importBeatMap, BUILTIN_TRACK,
+} from './audio/playlist';
+import {
+  activateSource, deactivateSource, getActiveSource,
+  createPlaylistSource, createSystemAudioSource, createInputAudioSource,
+} from './audio/audioSource';
+import type { AudioSource } from './audio/audioSource';
+import { updateAudioFeatures } from './audio/audioFeatures';
+import { updateBeatDetection, onBeat, onTransition, onHeavyBeatShift, onCue, setBeatSensitivity, getBeatSensitivity } from './audio/beatDetector';
+import { initBeatMapRecording, getRecordedBeatMap, parseBeatMap, serializeBeatMap, isBeatMapFile } from './audio/beatMap';
+import { initTempoTracking, updateTempoTracking, onBeatUpcoming } from './audio/tempoTracker';
+import { updateSectionTracking, onSectionChange } from './audio/sectionTracker';
+import { updateKeyDetection } from './audio/keyDetector';
+import { updateStereoAnalysis } from './audio/stereoAnalysis';
+import type { SectionLabel } from './audio/songStructure';
+import { initBeatEffects, triggerBeatPulse, updateBeatEffects, setBeatEffectScale } from './effects/beatEffects';
 import { initBuildingPulse, triggerBuildingPulse, updateBuildingPulse } from './effects/buildingPulse';
+import { initKeyPalette, updateKeyPalette } from './effects/keyPalette';
 import { initMotionBlur, updateMotionBlur, renderWithMotionBlur, resizeMotionBlur } from './effects/motionBlur';
 import { initStats, statsBegin, statsEnd } from './performance/stats';
 
@@ -44,6 +68,13 @@ const chunkManager = new ModelChunkManager(scene);
 // Initialize camera controller for smooth path following
 const cameraController = new CameraController(camera);
 
+// Plan turns around the buildings actually placed in the loaded chunks
+cameraController.getFlightPath().setObstacleQuery(chunkManager.getObstacleMap());
+
+// Manual flying (P toggles) - collides with the same buildings
+const pilotControls = new PilotControls(camera, canvas);
+pilotControls.setObstacleQuery(chunkManager.getObstacleMap());
+
 // Initialize bullet avatar for third-person view
 const bulletAvatar = new BulletAvatar(scene, cameraController.getFlightPath());
 
@@ -53,6 +84,15 @@ initBeatEffects(camera);
 // Initialize building pulse effect
 initBuildingPulse(scene);
 
+// Initialize key palette (tints the city by the music's key)
+initKeyPalette();
+
+// Initialize tempo tracking (beat prediction for anticipatory animation)
+initTempoTracking();
+
+// Record detected events so the play-through can be exported as a beat map
+initBeatMapRecording();
+
 // Initialize FPS counter for performance monitoring
 initStats();
 
@@ -65,10 +105,75 @@ cameraController.onPerspectiveChange((mode) => {
   }
 });
 
-// Transition detection callback - switch to third-person on musical transitions
+// Camera choreography from the music only steers the autopilot - while flying
+// by hand it would edit the parked path and show the bullet out of view
+function onAutopilot(action: () => void): () => void {
+  return () => {
+    if (!pilotControls.isEnabled()) action();
+  };
+}
+
+// Transition detection callback - the director cuts to a cinematic shot on musical transitions
 onTransition((intensity) => {
   // Only switch to third-person on transitions with enough intensity
-  if (intensity > 0.3) {
+  if (intensity > 0.3 && !pilotControls.isEnabled()) {
+    cameraController.switchToThirdPerson();
+  }
+});
+
+// Heavy beat shifts turn onto a cross street at the next intersection,
+// toward where the sound sits in the stereo field
+onHeavyBeatShift(() => {
+  if (pilotControls.isEnabled()) return;
+  const flightPath = cameraController.getFlightPath();
+  cameraController.queueTurn(flightPath.chooseTurnDirection());
+});
+
+// Named cues from imported beat maps (unknown names are ignored)
+const CUE_ACTIONS: Record<string, () => void> = {
+  'third-person': onAutopilot(() => cameraController.switchToThirdPerson()),
+  'first-person': onAutopilot(() => cameraController.switchToFirstPerson()),
+  'turn-left': onAutopilot(() => cameraController.queueTurn('left')),
+  'turn-right': onAutopilot(() => cameraController.queueTurn('right')),
+  'skyline': onAutopilot(() => cameraController.setAltitudeMode('skyline')),
+  'canyon': onAutopilot(() => cameraController.setAltitudeMode('canyon')),
+  'rooftop': onAutopilot(() => cameraController.setAltitudeMode('rooftop')),
+  'cruise': onAutopilot(() => cameraController.setAltitudeMode('cruise')),
+  'pulse': () => {
+    triggerBeatPulse(1);
+    triggerBuildingPulse(1);
+  },
+};
+
+// "shot-<name>" cuts straight to a shot (e.g. "shot-orbit", "shot-drone")
+for (const name of cameraController.getShotDirector().getShotNames()) {
+  CUE_ACTIONS[`shot-${name}`] = onAutopilot(() => cameraController.switchToShot(name));
+}
+
+onCue((name) => CUE_ACTIONS[name]?.());
+
+// Song section moods - cruising speed, beat pulse strength and altitude per section
+// (climb above the skyline in builds, dive into the street canyon on drops,
+// skim the rooftops in breakdowns)
+const CRUISE_SPEED = cameraController.getBaseSpeed();
+const DEFAULT_MOOD: { speed: number; pulse: number; altitude: AltitudeMode } = { speed: 1, pulse: 1, altitude: 'cruise' };
+const SECTION_MOODS: Record<SectionLabel, typeof DEFAULT_MOOD> = {
+  intro: { speed: 0.8, pulse: 0.6, altitude: 'cruise' },
+  build: { speed: 1.0, pulse: 0.8, altitude: 'skyline' },
+  drop: { speed: 1.3, pulse: 1.2, altitude: 'canyon' },
+  breakdown: { speed: 0.7, pulse: 0.4, altitude: 'rooftop' },
+  outro: { speed: 0.8, pulse: 0.6, altitude: 'cruise' },
+};
+
+onSectionChange((section, previous) => {
+  const mood = section ? SECTION_MOODS[section.label] : DEFAULT_MOOD;
+  cameraController.setBaseSpeed(CRUISE_SPEED * mood.speed);
+  setBeatEffectScale(mood.pulse);
+  if (pilotControls.isEnabled()) return;
+  cameraController.setAltitudeMode(mood.altitude);
+
+  // Pull back to show off the city when the drop hits
+  if (section?.label === 'drop' && previous && previous.label !== 'drop') {
     cameraController.switchToThirdPerson();
   }
 });
@@ -103,6 +208,11 @@ onBeat((intensity) => {
   }
 });
 
+// Wind up ahead of beats the tempo tracker can predict
+onBeatUpcoming(BEAT_WINDUP_LEAD_MS, (secondsUntilBeat) => {
+  cameraController.windUpForBeat(secondsUntilBeat);
+});
+
 // Handle window resize
 window.addEventListener('resize', () => {
   camera.aspect = window.innerWidth / window.innerHeight;
@@ -127,31 +237,57 @@ function animate() {
   const deltaTime = (currentTime - lastTime) / 1000; // Convert to seconds
   lastTime = currentTime;
 
-  // Only update camera when started
-  if (started) {
+  // Manual flying works paused too (handy for inspecting buildings)
+  if (pilotControls.isEnabled()) {
+    pilotControls.update(deltaTime);
+  }
+
+  // Only update camera when started (flight freezes while the track is paused)
+  if (started && !getIsPaused()) {
     // Smoothly ease camera speed back to base speed
     // Factor based on deltaTime for frame-rate independence
     // ~200ms return time: e^(-3 * deltaTime) gives smooth decay
     const easeFactor = 1 - Math.exp(-15 * deltaTime);
     cameraController.easeToBaseSpeed(easeFactor);
 
-    // Update camera controller (moves camera along flight path)
-    cameraController.update(deltaTime);
+    // Update camera controller (moves camera along flight path) unless flying by hand
+    if (!pilotControls.isEnabled()) {
+      cameraController.update(deltaTime);
 
-    // Update bullet avatar position to follow the same path
-    bulletAvatar.update(cameraController.getCurrentZ());
+      // Update bullet avatar position to follow the same path
+      bulletAvatar.update(cameraController.getCurrentDistance(), cameraController.getBankAngle());
+    }
+
+    // Extract this frame's audio features (shared by beat detection and effects)
+    updateAudioFeatures();
 
     // Update beat detection
     updateBeatDetection();
 
+    // Update tempo tracking (fires upcoming-beat events)
+    updateTempoTracking();
+
+    // Follow the song structure (fires section change events)
+    updateSectionTracking();
+
+    // Follow the harmony (fires key change events)
+    updateKeyDetection();
+
+    // Steer toward where the sound sits in the stereo field
+    const stereo = updateStereoAnalysis();
+    cameraController.getFlightPath().setStereoBalance(stereo.balance, stereo.movement);
+
     // Update beat visual effects (FOV pulse, vignette decay)
     updateBeatEffects(deltaTime);
     
     // Update building pulse effect
     updateBuildingPulse(deltaTime);
 
+    // Fade the city palette toward the current key's tint
+    updateKeyPalette(deltaTime);
+
     // Update motion blur intensity based on current speed
-    updateMotionBlur(cameraController.getSpeed());
+    updateMotionBlur(pilotControls.isEnabled() ? pilotControls.getSpeed() : cameraController.getSpeed());
   }
 
   // Update chunk manager to load/unload chunks as camera moves
@@ -168,42 +304,173 @@ function animate() {
 const startOverlay = document.getElementById('start-overlay');
 const startBuiltinBtn = document.getElementById('start-builtin');
 const startSystemBtn = document.getElementById('start-system');
+const startFilesBtn = document.getElementById('start-files');
+const startInputBtn = document.getElementById('start-input');
+const inputDeviceSelect = document.getElementById('input-device') as HTMLSelectElement | null;
+const fileInput = document.getElementById('file-input') as HTMLInputElement | null;
+
+// Playlist controls
+const playlistControls = document.getElementById('playlist-controls');
+const playlistTrackLabel = document.getElementById('playlist-track');
+const playlistShuffleBtn = document.getElementById('playlist-shuffle');
+const playlistRepeatBtn = document.getElementById('playlist-repeat');
+const playlistPauseBtn = document.getElementById('playlist-pause');
+const playbackSeek = document.getElementById('playback-seek') as HTMLInputElement | null;
+const playbackTimeLabel = document.getElementById('playback-time');
+
+// Beat sensitivity control
+const sensitivityControl = document.getElementById('sensitivity-control');
+const sensitivityInput = document.getElementById('beat-sensitivity') as HTMLInputElement | null;
+
+// Seek step for the [ and ] keys
+const SEEK_STEP_SECONDS = 10;
+
+// Take the camera off the autopilot, or hand it back at the nearest point of the path
+function togglePilotMode(): void {
+  if (pilotControls.isEnabled()) {
+    pilotControls.disable();
+    cameraController.resumeFromCamera();
+  } else {
+    cameraController.switchToFirstPerson();
+    pilotControls.enable();
+  }
+}
 
-async function startWithBuiltinAudio() {
-  if (started) return;
+const SENSITIVITY_STORAGE_KEY = 'zooming.beatSensitivity';
+
+/**
+ * Activate an audio source and enter the experience once it is running.
+ * When the source ends or fails, go back to the start overlay.
+ */
+async function startSource(source: AudioSource): Promise<boolean> {
+  source.onEnded(() => returnToStart(source));
+  source.onError((error) => {
+    alert(error.message);
+    returnToStart(source);
+  });
+
+  if (!(await activateSource(source))) {
+    return false;
+  }
 
-  // Initialize and load audio
-  initAudio();
-  await loadAudio();
+  // Sample-accurate beats from the audio thread (falls back to frame-based detection);
+  // reconnected for every source, since a source may have rerouted the analyser
+  const audioContext = getAudioContext();
+  const analyser = getAnalyserNode();
+  if (audioContext && analyser) {
+    void initOnsetWorklet(audioContext, analyser);
+  }
 
-  // Start playing audio
-  play();
+  playlistControls?.classList.toggle('hidden', source.kind !== 'playlist');
 
   // Hide the overlay
   startOverlay?.classList.add('hidden');
+  sensitivityControl?.classList.remove('hidden');
 
   // Start the experience
   started = true;
   lastTime = performance.now();
+  return true;
 }
 
-async function startWithSystemAudio() {
+/**
+ * Leave the experience and show the start overlay again
+ * (the source ended or failed while it was the active one).
+ */
+function returnToStart(source: AudioSource) {
+  if (getActiveSource() !== source) return;
+
+  deactivateSource();
+  started = false;
+
+  // Hand the camera back to the autopilot (and release the pointer) so the
+  // overlay can be used and the next start flies on its own
+  if (pilotControls.isEnabled()) {
+    pilotControls.disable();
+    cameraController.resumeFromCamera();
+  }
+  playlistControls?.classList.add('hidden');
+  sensitivityControl?.classList.add('hidden');
+  startOverlay?.classList.remove('hidden');
+}
+
+async function startWithBuiltinAudio() {
   if (started) return;
 
-  // Request system audio capture
-  const success = await startSystemAudioCapture();
-  
-  if (!success) {
-    alert('Could not capture system audio. Make sure to check "Share audio" when selecting what to share.');
+  // Play the built-in track through the playlist (added once, even after returning to the overlay)
+  const existingIndex = getTracks().indexOf(BUILTIN_TRACK);
+  const index = existingIndex >= 0 ? existingIndex : addTracks([BUILTIN_TRACK]);
+  await startSource(createPlaylistSource(index));
+}
+
+/**
+ * Import beat map files. Each map replaces beat detection for its track.
+ */
+async function importBeatMapFiles(files: File[]) {
+  for (const file of files) {
+    try {
+      const map = parseBeatMap(await file.text());
+      if (importBeatMap(map)) {
+        console.log(`Beat map imported for "${map.trackId}": ${map.beats.length} beats`);
+      } else {
+        console.log(`Beat map for "${map.trackId}" will be used once that track is added`);
+      }
+    } catch (error) {
+      alert(`${file.name}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Download what beat detection fired for the current track as a beat map.
+ */
+function exportBeatMap() {
+  const track = getCurrentTrack();
+  const map = track ? getRecordedBeatMap(getTrackId(track)) : null;
+  if (!track || !map) {
+    alert('Nothing recorded for this track yet - let it play for a while first.');
     return;
   }
 
-  // Hide the overlay
-  startOverlay?.classList.add('hidden');
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([serializeBeatMap(map)], { type: 'application/json' }));
+  link.download = `${track.name}.beatmap.json`;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(link.href), 0);
+}
 
-  // Start the experience (no built-in audio, just visualization)
-  started = true;
-  lastTime = performance.now();
+async function startWithLocalFiles(files: FileList | File[]) {
+  // Beat maps dropped along with their tracks are imported first, so the tracks load with them
+  const beatMapFiles = Array.from(files).filter(isBeatMapFile);
+  await importBeatMapFiles(beatMapFiles);
+  if (beatMapFiles.length === files.length) return;
+
+  const firstNewIndex = getTracks().length;
+  if (addFiles(files) === 0) {
+    alert('No playable audio files found. Try MP3, WAV, OGG, FLAC or M4A.');
+    return;
+  }
+
+  // Already playing the playlist - just jump to the new files
+  if (getActiveSource()?.kind === 'playlist' && started) {
+    const result = await playTrack(firstNewIndex);
+    if (result === 'busy') {
+      alert('Another track is still loading - the new files were added to the playlist.');
+    } else if (result === 'failed') {
+      alert('Could not decode that audio file.');
+    }
+    return;
+  }
+
+  // Local files replace live capture (activating the playlist stops it)
+  await startSource(createPlaylistSource(firstNewIndex));
+}
+
+async function startWithSystemAudio() {
+  if (started) return;
+
+  // No built-in audio, just visualization of whatever is playing
+  await startSource(createSystemAudioSource());
 }
 
 startBuiltinBtn?.addEventListener('click', (e) => {
@@ -211,9 +478,198 @@ startBuiltinBtn?.addEventListener('click', (e) => {
   startWithBuiltinAudio();
 });
 
+async function startWithInputAudio() {
+  if (started) return;
+
+  // Capture the selected input device (empty value = remembered/default device)
+  // The input is visualized only, never played back
+  if (await startSource(createInputAudioSource(inputDeviceSelect?.value || undefined))) {
+    // Labels are only available after permission was granted - refresh the list
+    populateInputDevices();
+  }
+}
+
+/**
+ * Fill the input device dropdown, preselecting the remembered device.
+ */
+async function populateInputDevices() {
+  if (!inputDeviceSelect) return;
+
+  const devices = await listInputDevices();
+  const savedId = getSavedInputDeviceId();
+
+  inputDeviceSelect.replaceChildren(new Option('Default input', ''));
+  devices.forEach((device, i) => {
+    if (!device.deviceId || device.deviceId === 'default') return;
+    const option = new Option(device.label || `Input ${i + 1}`, device.deviceId);
+    option.selected = device.deviceId === savedId;
+    inputDeviceSelect.add(option);
+  });
+}
+
+if (supportsInputAudio()) {
+  populateInputDevices();
+  navigator.mediaDevices.addEventListener('devicechange', () => populateInputDevices());
+} else {
+  startInputBtn?.setAttribute('disabled', '');
+}
+
+inputDeviceSelect?.addEventListener('click', (e) => e.stopPropagation());
+
+startInputBtn?.addEventListener('click', (e) => {
+  e.stopPropagation();
+  startWithInputAudio();
+});
+
 startSystemBtn?.addEventListener('click', (e) => {
   e.stopPropagation();
   startWithSystemAudio();
 });
 
+startFilesBtn?.addEventListener('click', (e) => {
+  e.stopPropagation();
+  fileInput?.click();
+});
+
+fileInput?.addEventListener('change', () => {
+  if (fileInput.files && fileInput.files.length > 0) {
+    startWithLocalFiles(fileInput.files);
+  }
+  // Allow picking the same files again
+  fileInput.value = '';
+});
+
+// Drag and drop audio files anywhere on the page
+let dragDepth = 0;
+window.addEventListener('dragenter', (e) => {
+  e.preventDefault();
+  dragDepth++;
+  document.body.classList.add('dragging');
+});
+window.addEventListener('dragleave', () => {
+  dragDepth = Math.max(0, dragDepth - 1);
+  if (dragDepth === 0) document.body.classList.remove('dragging');
+});
+window.addEventListener('dragover', (e) => {
+  e.preventDefault();
+});
+window.addEventListener('drop', (e) => {
+  e.preventDefault();
+  dragDepth = 0;
+  document.body.classList.remove('dragging');
+  if (e.dataTransfer && e.dataTransfer.files.length > 0) {
+    startWithLocalFiles(e.dataTransfer.files);
+  }
+});
+
+// Dropping files doesn't count as a user gesture for autoplay - resume on the next click
+window.addEventListener('pointerdown', () => {
+  const audioContext = getAudioContext();
+  if (audioContext && audioContext.state === 'suspended') {
+    audioContext.resume();
+  }
+});
+
+document.getElementById('playlist-prev')?.addEventListener('click', () => playPrevious());
+document.getElementById('playlist-next')?.addEventListener('click', () => playNext());
+document.getElementById('playlist-add')?.addEventListener('click', () => fileInput?.click());
+document.getElementById('playlist-export')?.addEventListener('click', () => exportBeatMap());
+
+playlistShuffleBtn?.addEventListener('click', () => {
+  setShuffle(!getShuffle());
+  playlistShuffleBtn.classList.toggle('active', getShuffle());
+});
+
+playlistRepeatBtn?.addEventListener('click', () => {
+  const mode = cycleRepeat();
+  playlistRepeatBtn.textContent = mode === 'one' ? '🔂' : '🔁';
+  playlistRepeatBtn.classList.toggle('active', mode !== 'off');
+  playlistRepeatBtn.title = `Repeat: ${mode}`;
+});
+
+function togglePause() {
+  if (getIsPaused()) {
+    resume();
+  } else if (getIsPlaying()) {
+    pause();
+  }
+  if (playlistPauseBtn) {
+    playlistPauseBtn.textContent = getIsPaused() ? '▶' : '⏸';
+  }
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+// Keep the seek bar in sync with playback (not every frame - the DOM update isn't free)
+let isScrubbing = false;
+window.setInterval(() => {
+  if (!playbackSeek || !playbackTimeLabel) return;
+  const duration = getDuration();
+  const current = getCurrentTime();
+  playbackSeek.max = duration.toString();
+  if (!isScrubbing) {
+    playbackSeek.value = current.toString();
+  }
+  playbackTimeLabel.textContent = `${formatTime(current)} / ${formatTime(duration)}`;
+}, 250);
+
+playbackSeek?.addEventListener('input', () => {
+  isScrubbing = true;
+});
+playbackSeek?.addEventListener('change', () => {
+  isScrubbing = false;
+  seek(parseFloat(playbackSeek.value));
+});
+
+playlistPauseBtn?.addEventListener('click', () => togglePause());
+
+// Restore the saved beat sensitivity and persist changes
+try {
+  const savedSensitivity = localStorage.getItem(SENSITIVITY_STORAGE_KEY);
+  if (savedSensitivity !== null) {
+    setBeatSensitivity(parseFloat(savedSensitivity));
+  }
+} catch {
+  // Storage unavailable (private mode) - keep the default
+}
+if (sensitivityInput) {
+  sensitivityInput.value = getBeatSensitivity().toString();
+  sensitivityInput.addEventListener('input', () => {
+    setBeatSensitivity(parseFloat(sensitivityInput.value));
+    try {
+      localStorage.setItem(SENSITIVITY_STORAGE_KEY, getBeatSensitivity().toString());
+    } catch {
+      // Storage unavailable - the setting just isn't remembered
+    }
+  });
+}
+
+window.addEventListener('keydown', (e) => {
+  if (!started || e.target instanceof HTMLInputElement) return;
+
+  if (e.code === 'Space') {
+    e.preventDefault();
+    togglePause();
+  } else if (e.key === '[') {
+    seek(getCurrentTime() - SEEK_STEP_SECONDS);
+  } else if (e.key === ']') {
+    seek(getCurrentTime() + SEEK_STEP_SECONDS);
+  } else if (e.code === 'KeyP') {
+    togglePilotMode();
+  }
+});
+
+onTrackChange((track) => {
+  if (playlistPauseBtn) {
+    playlistPauseBtn.textContent = '⏸';
+  }
+  if (playlistTrackLabel) {
+    playlistTrackLabel.textContent = track ? track.name : 'Playlist finished';
+  }
+});
+
 animate();